@@ -0,0 +1,1939 @@
+import { EventEmitter } from 'events';
+import path from 'path';
+import { ethers } from 'ethers';
+import Safe, { EthSafeSignature } from '@safe-global/protocol-kit';
+import { AxiosInstance } from 'axios';
+import { ClaimLedger, LedgerEntry } from './services/claim-ledger';
+import { PositionSource } from './config/accounts';
+import { NETWORK_PROFILES, NetworkProfile, requireNetworkAddress } from './config/networks';
+import { SignerConfig, createSigner, describeSigner, validateSignerConfig } from './config/signer';
+import { ChainPositionSource } from './services/chain-discovery';
+import { DataApiClient, DataApiOptions } from './services/data-api';
+import { GasDeferredError, GasManager, GasOptions } from './services/gas-manager';
+import { MergePlanner } from './services/merge-planner';
+import { MetricsRegistry } from './services/metrics';
+import { Notifier } from './services/notifier';
+import { NegRiskPositions, negRiskAdapterInterface } from './services/neg-risk';
+import { ClaimPolicy, ClaimPolicyEngine, PolicyDecision } from './services/policy-engine';
+import { ClaimSimulator, SimulationResult } from './services/simulator';
+import { RelayerClient, RelayerOptions } from './services/relayer';
+import { SafeTxService } from './services/safe-tx-service';
+import { SignerBridge } from './services/signer-bridge';
+import { SweepOptions, SweepPlanner } from './services/sweep-planner';
+import { GasTopUp, TopUpOptions } from './services/gas-topup';
+import { OnChainVerifier, expectedPayoutUsdc } from './services/onchain-verifier';
+import { LogSink, log } from './services/logger';
+import { FileRunLock, LockLease, RunLock, RunLockBusyError, RunLockLostError } from './services/run-lock';
+import { Position } from './types/position';
+import CTF_ABI from './contracts/CTF.json';
+
+// ---------- Claimer -----------------------------------------------------------
+// Discovers the redeemable positions of one Safe or Polymarket proxy wallet and
+// claims them. Everything it needs comes in through ClaimerOptions: the CLI
+// (src/simple-claimer.ts) builds those from flags, env vars and the accounts
+// file, a host process passes them directly (see src/index.ts). Nothing here
+// reads process.env or argv; a SignerConfig names the env vars of its secrets.
+
+// Everything but proxyAddress and signer is optional; defaults match the CLI's
+export interface ClaimerOptions {
+  name?: string;                         // account label in logs, events and reports (default 'default')
+  proxyAddress: string;                  // Safe or Polymarket proxy wallet holding the positions
+  signer: ethers.Signer | SignerConfig;  // a signer (connected to the claimer's provider), or a signer backend (src/config/signer.ts)
+  signerEnv?: NodeJS.ProcessEnv;         // env vars a SignerConfig reads its key, password or token from (default process.env)
+  provider?: ethers.JsonRpcProvider;     // or rpcUrl
+  rpcUrl?: string;
+  forkRpcUrl?: string;                   // the provider is a local Anvil/Hardhat fork at this URL (docs/FORK.md)
+  network?: NetworkProfile;              // chain, contracts and services (default NETWORK_PROFILES.polygon)
+  http?: AxiosInstance;                  // transport of the data API client (default axios)
+  logger?: LogSink;                      // receives this claimer's log lines instead of the console
+  metrics?: MetricsRegistry;             // Prometheus counters (src/services/metrics.ts)
+  notifier?: Notifier;                   // claim / low balance / fatal error notifications
+  ledgerPath?: string;                   // claim ledger (default ./claim-results/ledger.jsonl)
+  lock?: RunLock | false;                // per-account run lock (default: lock files in locks/ next to the ledger; false: none)
+
+  // Discovery
+  source?: PositionSource;               // data API, chain logs or both (default api)
+  dataApi?: Partial<DataApiOptions>;     // base URL defaults to the network's data API
+  fromBlock?: number;                    // first block of the initial chain scan
+  chainScanChunkSize?: number;           // blocks per eth_getLogs request (default 2000)
+  chainCursorPath?: string;              // chain scan checkpoint (default chain-cursor-<proxy>.json next to the ledger)
+  claimPolicy?: ClaimPolicy;             // which claimable positions are claimed (src/services/policy-engine.ts)
+
+  // Claiming
+  dryRun?: boolean;
+  batchSize?: number;                    // positions per transaction (default 20)
+  maxBatchGas?: bigint;                  // gas ceiling per transaction (default 5,000,000)
+  gas?: Partial<GasOptions>;             // fee caps, replacement and budget (src/services/gas-manager.ts)
+  lowBalanceMatic?: number;              // low_balance notification threshold of the EOA (default 0.05)
+  negRiskMerge?: boolean;                // merge neg-risk YES/NO pairs before redeeming the rest
+  merge?: boolean;                       // merge YES/NO pairs of unresolved markets back into USDC
+  safeTxService?: SafeTxService;         // multisig proposals (default: the network's service)
+  relayer?: RelayerOptions;              // gasless proxy transactions through Polymarket's relayer
+  topUp?: TopUpOptions;                  // refill the EOA's gas from the proxy
+  sweep?: SweepOptions;                  // move excess USDC to a treasury after claiming
+  sweepWithClaim?: boolean;              // carry the sweep transfer in the last claim transaction
+}
+
+// Events of a claimer, with their listener arguments. Claim events fire for
+// transactions sent (not in dry-run); listener errors are logged and ignored.
+export interface ClaimerEvents {
+  positionFound: [position: Position];                    // a verified claimable position passed the claim policy
+  claimSubmitted: [event: ClaimSubmittedEvent];           // a claim transaction was broadcast
+  claimConfirmed: [event: ClaimConfirmedEvent];           // a position's claim was mined
+  claimFailed: [event: ClaimFailedEvent];                 // a position's claim reverted, failed simulation or could not be sent
+}
+
+export interface ClaimSubmittedEvent {
+  account: string;
+  positions: Position[];
+  txHash: string;
+}
+
+export interface ClaimConfirmedEvent {
+  account: string;
+  position: Position;
+  txHash?: string;
+  blockNumber?: number;
+  payout: number;          // expected USDC for the position
+  conditionPayout?: number; // USDC the receipt's PayoutRedemption paid for the whole condition
+}
+
+export interface ClaimFailedEvent {
+  account: string;
+  position: Position;
+  error: string;
+  txHash?: string;
+}
+
+// Result of discover(): claimable positions plus everything left out and why
+export interface DiscoveryResult {
+  account: string;
+  proxyAddress: string;
+  positions: Position[];
+  filtered: FilteredPosition[];
+  policy: PolicyRecord[];
+  degraded?: string;
+}
+
+// Result of plan(): the transactions a claim would send
+export interface ClaimPlan extends DiscoveryResult {
+  batches: Position[][]; // one transaction each, conditions never split
+  expectedPayout: number;
+}
+
+export interface Balances {
+  account: string;
+  eoa: string;
+  eoaMatic: string;
+  proxy: string;
+  proxyUsdc: string;
+  proxyMatic: string;
+}
+
+// Proxy Factory ABI (minimal)
+const PROXY_FACTORY_ABI = [
+  {
+    "constant": false,
+    "inputs": [
+      {
+        "components": [
+          { "name": "typeCode", "type": "uint8" },
+          { "name": "to", "type": "address" },
+          { "name": "value", "type": "uint256" },
+          { "name": "data", "type": "bytes" }
+        ],
+        "name": "calls",
+        "type": "tuple[]"
+      }
+    ],
+    "name": "proxy",
+    "outputs": [{ "name": "returnValues", "type": "bytes[]" }],
+    "payable": true,
+    "stateMutability": "payable",
+    "type": "function"
+  }
+];
+
+export interface ClaimCall {
+  to: string;
+  data: string;
+  value?: bigint; // MATIC sent from the proxy (gas top-up); claims send none
+}
+
+export interface ClaimResult {
+  success: boolean;
+  txHash?: string;
+  error?: string;
+  reverted?: boolean; // true when the failure was an on-chain/simulated revert (eligible for bisection)
+  blockNumber?: number;
+  gasUsed?: bigint;
+  payouts?: Map<string, bigint>; // conditionId (lowercase) -> USDC paid to the proxy, from PayoutRedemption logs
+  deferred?: boolean; // not sent: fee ceiling, gas budget or gas-vs-payout check
+  pending?: boolean;  // sent but not mined after all replacements; reconciled on a later run
+  swept?: boolean;    // the transaction also carried the USDC sweep transfer (--sweep-with-claim)
+  proposed?: boolean; // multisig Safe: proposed to the Transaction Service, awaiting confirmations
+  safeTxHash?: string;
+}
+
+// ClaimerOptions with the defaults applied
+interface ClaimerSettings {
+  batchSize: number;
+  maxBatchGas: bigint;
+  source: PositionSource;
+  dryRun: boolean;
+  policy: ClaimPolicyEngine;
+  merge: boolean;
+  negRiskMerge: boolean;
+  sweepWithClaim: boolean;
+  lowBalanceMatic: number;
+}
+
+export interface RunSummary {
+  account: string;
+  proxyAddress: string;
+  dryRun: boolean;
+  positionsFound: number;
+  succeeded: number;
+  failed: number;
+  payout: number; // USDC claimed (or claimable, in dry-run)
+  transactions: number;
+  deferred: number;   // positions not sent because of gas limits
+  proposed: number;   // positions proposed to the Safe Transaction Service (multisig Safes)
+  gasSpent: string;   // MATIC spent by the signer this run
+  merged: number;     // conditions whose YES/NO pairs were merged (--merge)
+  mergedUsdc: number; // USDC freed by merges
+  swept: number;      // USDC moved to the treasury (or that would be, in dry-run)
+  sweepTxHash?: string;
+  runId?: string;
+  startedAt: string;
+  finishedAt?: string;
+  filtered: FilteredPosition[]; // positions not claimed, with the reason
+  policy: PolicyRecord[];       // claim policy decision for every position that reached it
+  claims: ClaimRecord[];        // per-position outcome of this run
+  degraded?: string;            // discovery was incomplete, so "nothing to claim" can't be trusted
+  skipped?: string;             // not run: another run holds the account's lock
+  error?: string;
+}
+
+export interface FilteredPosition {
+  conditionId: string;
+  outcomeIndex: number;
+  title: string;
+  stage: 'api' | 'schema' | 'onchain' | 'ledger' | 'policy'; // api: empty or unresolved per the data API; schema: malformed record
+  reason: string;
+}
+
+// Result of the startup checks in initialize(), printed by `verify`
+export interface VerifyReport {
+  account: string;
+  proxyAddress: string;
+  chainId: number;
+  signer: string;
+  signerBackend: string;
+  mode: 'safe' | 'proxy';
+  owners?: string[];
+  threshold?: number;
+}
+
+export interface PolicyRecord {
+  conditionId: string;
+  outcomeIndex: number;
+  title: string;
+  claim: boolean;
+  rule: string;
+  detail: string;
+}
+
+export interface ClaimRecord {
+  conditionId: string;
+  outcomeIndex: number;
+  title: string;
+  status: 'claimed' | 'failed' | 'deferred' | 'pending' | 'proposed';
+  payout: number;
+  txHash?: string;
+  safeTxHash?: string;
+  error?: string;
+}
+
+export function emptySummary(account: string, proxyAddress: string, dryRun: boolean): RunSummary {
+  return {
+    account,
+    proxyAddress,
+    dryRun,
+    positionsFound: 0,
+    succeeded: 0,
+    failed: 0,
+    payout: 0,
+    transactions: 0,
+    deferred: 0,
+    proposed: 0,
+    gasSpent: '0',
+    merged: 0,
+    mergedUsdc: 0,
+    swept: 0,
+    runId: log.currentContext().runId,
+    startedAt: new Date().toISOString(),
+    filtered: [],
+    policy: [],
+    claims: [],
+  };
+}
+
+function policyRecord({ position, claim, rule, detail }: PolicyDecision): PolicyRecord {
+  return {
+    conditionId: position.conditionId,
+    outcomeIndex: position.outcomeIndex,
+    title: position.title,
+    claim,
+    rule,
+    detail,
+  };
+}
+
+// Group positions by conditionId, preserving first-seen order
+function groupByCondition(positions: Position[]): Position[][] {
+  const groups = new Map<string, Position[]>();
+  for (const position of positions) {
+    const key = position.conditionId.toLowerCase();
+    if (!groups.has(key)) groups.set(key, []);
+    groups.get(key)!.push(position);
+  }
+  return [...groups.values()];
+}
+
+function capitalize(text: string): string {
+  return text.charAt(0).toUpperCase() + text.slice(1);
+}
+
+function isRevertError(error: any): boolean {
+  return error?.code === 'CALL_EXCEPTION' || /revert/i.test(error?.message || '');
+}
+
+// A ready signer, as opposed to a signer backend configuration
+function isSigner(signer: ethers.Signer | SignerConfig): signer is ethers.Signer {
+  return typeof (signer as ethers.Signer).getAddress === 'function';
+}
+
+export class SimplePolymarketClaimer extends EventEmitter<ClaimerEvents> {
+  private provider: ethers.JsonRpcProvider;
+  private readonly network: NetworkProfile;
+  private signer!: ethers.Signer; // resolved from signerSource on first use
+  private readonly signerSource: ethers.Signer | SignerConfig;
+  private readonly signerEnv: NodeJS.ProcessEnv;
+  private safe?: Safe;
+  private safeThreshold = 1;
+  readonly proxyAddress: string;
+  private settings: ClaimerSettings;
+  readonly name: string;
+  private ledger: ClaimLedger;
+  private verifier: OnChainVerifier;
+  private chainSource: ChainPositionSource;
+  private negRisk: NegRiskPositions;
+  private mergePlanner: MergePlanner;
+  private gas: GasManager;
+  private simulator: ClaimSimulator;
+  private sweeper?: SweepPlanner;
+  private topUp?: GasTopUp;
+  private relayer?: RelayerClient;
+  private dataApi: DataApiClient;
+  private readonly safeTxService?: SafeTxService;
+  private readonly forkRpcUrl?: string;
+  private readonly logger?: LogSink;
+  private readonly metrics?: MetricsRegistry;
+  private readonly notifier?: Notifier;
+  private readonly lock?: RunLock;
+  private lease?: LockLease; // held during a pass
+  private discovery: { degraded?: string; quarantined: FilteredPosition[]; resolved?: Set<string> } = { quarantined: [] }; // per pass
+  private held = new Set<string>(); // conditionIds with shares, as of the last complete discovery
+  private pendingSweep?: number; // USDC in the sweep transfer attached to the current batch
+  
+  constructor(options: ClaimerOptions) {
+    super();
+    this.proxyAddress = options.proxyAddress;
+    this.name = options.name || 'default';
+    this.network = options.network || NETWORK_PROFILES.polygon;
+    if (!this.proxyAddress) throw new Error('Missing proxy address');
+    if (!options.provider && !options.rpcUrl) throw new Error('Missing RPC: pass a provider or an rpcUrl');
+    
+    this.signerSource = options.signer;
+    this.signerEnv = options.signerEnv || process.env;
+    if (!isSigner(this.signerSource)) {
+      // Whether raw keys are acceptable at all is the caller's decision (the CLI asks for --allow-raw-key)
+      validateSignerConfig(this.signerSource, this.signerEnv, true);
+    }
+    
+    this.settings = {
+      batchSize: Math.max(1, Math.floor(options.batchSize ?? 20)),
+      maxBatchGas: options.maxBatchGas ?? 5_000_000n,
+      source: options.source || 'api',
+      dryRun: !!options.dryRun,
+      policy: new ClaimPolicyEngine(options.claimPolicy || {}),
+      merge: !!options.merge,
+      negRiskMerge: !!options.negRiskMerge,
+      sweepWithClaim: !!options.sweepWithClaim,
+      lowBalanceMatic: options.lowBalanceMatic ?? 0.05,
+    };
+    const dataApiOptions: DataApiOptions = {
+      timeoutMs: 15_000,
+      maxRetries: 4,
+      pageSize: 500,
+      maxPages: 40,
+      baseDelayMs: 1000,
+      ...options.dataApi,
+      baseUrl: options.dataApi?.baseUrl || this.network.polymarketApi || '',
+    };
+    if (this.settings.source !== 'chain' && !dataApiOptions.baseUrl) {
+      throw new Error(`No data API for network ${this.network.name}: use --source chain or set --api-url`);
+    }
+    
+    this.forkRpcUrl = options.forkRpcUrl;
+    this.logger = options.logger;
+    this.metrics = options.metrics;
+    this.notifier = options.notifier;
+    this.safeTxService = options.safeTxService
+      || (this.network.safeTxServiceUrl ? new SafeTxService(this.network.safeTxServiceUrl) : undefined);
+    this.provider = options.provider || new ethers.JsonRpcProvider(options.rpcUrl);
+    const ledgerPath = options.ledgerPath || path.resolve('claim-results', 'ledger.jsonl');
+    this.ledger = new ClaimLedger(ledgerPath);
+    if (options.lock !== false) this.lock = options.lock || new FileRunLock(path.resolve(path.dirname(ledgerPath), 'locks'));
+    this.dataApi = new DataApiClient(dataApiOptions, (seconds, failed) => {
+      this.metrics?.observe('claimer_api_request_duration_seconds', { account: this.name }, seconds);
+      if (failed) this.metrics?.inc('claimer_api_errors_total', { account: this.name });
+    }, options.http);
+    this.verifier = new OnChainVerifier(this.provider, this.network.ctfAddress);
+    this.gas = new GasManager(this.provider, { replaceAfterBlocks: 20, maxReplacements: 3, bumpPercent: 15, maticUsdFeed: this.network.maticUsdFeedAddress, ...options.gas });
+    this.simulator = new ClaimSimulator(this.provider, this.network.usdcAddress);
+    this.mergePlanner = new MergePlanner(this.provider, this.network.ctfAddress);
+    if (options.relayer) {
+      this.relayer = new RelayerClient(this.provider, options.relayer);
+    }
+    if (options.topUp) {
+      this.topUp = new GasTopUp(this.provider, options.topUp, path.resolve(path.dirname(ledgerPath), 'gas-topups.jsonl'));
+    }
+    if (options.sweep) {
+      this.sweeper = new SweepPlanner(this.provider, this.network.usdcAddress, { ...options.sweep, to: ethers.getAddress(options.sweep.to) });
+    }
+    this.negRisk = new NegRiskPositions(this.network.ctfAddress, this.network.negRiskWrappedCollateralAddress, this.provider);
+    this.chainSource = new ChainPositionSource(this.provider, {
+      ctfAddress: this.network.ctfAddress,
+      collateralAddress: this.network.usdcAddress,
+      negRiskCollateralAddress: this.network.negRiskWrappedCollateralAddress,
+      startBlock: options.fromBlock,
+      chunkSize: options.chainScanChunkSize ?? 2000,
+      cursorPath: options.chainCursorPath || path.resolve(path.dirname(ledgerPath), `chain-cursor-${this.proxyAddress.toLowerCase()}.json`),
+    });
+  }
+  
+  // Unlock / connect the signer backend once per process
+  private async loadSigner(): Promise<ethers.Signer> {
+    if (!this.signer) {
+      const source = this.signerSource;
+      if (isSigner(source)) {
+        // Transactions must go through the same provider as reads, simulation and the gas logic
+        if (source.provider === this.provider) {
+          this.signer = source;
+        } else {
+          try {
+            this.signer = source.connect(this.provider);
+          } catch (error: any) {
+            throw new Error(`The signer is connected to a different provider than the claimer's and cannot be reconnected (${error?.shortMessage || error?.message || error}); pass the signer's provider as \`provider\``);
+          }
+        }
+      } else {
+        this.signer = await createSigner(source, this.signerEnv, this.provider);
+      }
+      log.info(`🔑 Signer: ${isSigner(source) ? 'provided signer' : describeSigner(source)} (${await this.signer.getAddress()})`);
+    }
+    return this.signer;
+  }
+  
+  // Run fn with this account's log context, sending log lines to the configured logger
+  private scoped<T>(fn: () => Promise<T>): Promise<T> {
+    return log.withContext({ account: this.name }, () => log.withSink(this.logger, fn));
+  }
+  
+  // Deliver an event; a throwing listener must not break claiming or the ledger
+  private publish<E extends keyof ClaimerEvents>(event: E, ...args: ClaimerEvents[E]) {
+    try {
+      (this.emit as (event: E, ...args: ClaimerEvents[E]) => boolean)(event, ...args);
+    } catch (error: any) {
+      log.warn(`⚠️  ${event} listener failed: ${error?.message || error}`);
+    }
+  }
+  
+  async initialize(): Promise<VerifyReport> {
+    log.info('🔧 Initializing claimer...');
+    
+    // Verify network
+    const network = await this.provider.getNetwork();
+    if (network.chainId !== BigInt(this.network.chainId)) {
+      throw new Error(`Wrong network. Expected chain ${this.network.chainId}, got ${network.chainId}`);
+    }
+    if (this.forkRpcUrl) {
+      // A fork shares the chain ID with the real network, so make sure the RPC really is a local dev node
+      const client: string = await this.provider.send('web3_clientVersion', []).catch(() => 'unknown');
+      if (!/anvil|hardhat/i.test(client)) {
+        throw new Error(`--fork expects an Anvil or Hardhat node, but ${this.forkRpcUrl} reports "${client}"`);
+      }
+    }
+    
+    // Verify contract addresses exist on-chain
+    const ctfCode = await this.provider.getCode(this.network.ctfAddress);
+    const usdcCode = await this.provider.getCode(this.network.usdcAddress);
+    
+    if (ctfCode === '0x' || ctfCode.length < 10) {
+      throw new Error(`CTF contract not found at ${this.network.ctfAddress}`);
+    }
+    if (usdcCode === '0x' || usdcCode.length < 10) {
+      throw new Error(`USDC contract not found at ${this.network.usdcAddress}`);
+    }
+    
+    // Verify proxy is a contract
+    const proxyCode = await this.provider.getCode(this.proxyAddress);
+    if (proxyCode === '0x' || proxyCode.length < 10) {
+      throw new Error(`No Safe contract found at ${this.proxyAddress}. Is this a valid Gnosis Safe proxy?`);
+    }
+    
+    // Try to initialize Safe - handle both standard Gnosis Safes and Polymarket custom proxies
+    const signerAddress = await (await this.loadSigner()).getAddress();
+    const report: VerifyReport = {
+      account: this.name,
+      proxyAddress: this.proxyAddress,
+      chainId: Number(network.chainId),
+      signer: signerAddress,
+      signerBackend: isSigner(this.signerSource) ? 'provided' : this.signerSource.type,
+      mode: 'proxy',
+    };
+    // Try to detect Safe type
+    
+    try {
+      // First try standard Gnosis Safe initialization. The SDK gets an EIP-1193 bridge and
+      // the signer address, so signing goes through the configured backend and no key is passed.
+      this.safe = await Safe.init({
+        provider: new SignerBridge(this.signer, this.provider),
+        signer: signerAddress,
+        safeAddress: this.proxyAddress,
+      });
+      
+      const owners = await this.safe.getOwners();
+      const threshold = await this.safe.getThreshold();
+      
+      if (!owners.includes(signerAddress)) {
+        throw new Error(`Signer ${signerAddress} is not an owner of Safe ${this.proxyAddress}`);
+      }
+      
+      log.info(`   Safe threshold: ${threshold}/${owners.length}`);
+      log.info(`   ✅ Standard Gnosis Safe detected`);
+      this.safeThreshold = threshold;
+      if (this.relayer) {
+        log.warn(`   ⚠️  --gasless only applies to Polymarket proxy wallets; this Safe's transactions are paid by the EOA`);
+      }
+      if (threshold > 1) {
+        log.info(`   🗳️  Claims are proposed to ${this.safeTxService?.url ?? 'the Safe Transaction Service'} for the other owners to confirm`);
+      }
+      Object.assign(report, { mode: 'safe', owners, threshold });
+      
+    } catch (error) {
+      log.info(`   ⚠️  Standard Safe init failed, trying Polymarket proxy mode...`);
+      log.info(`   Error: ${(error as any)?.shortMessage || (error as any)?.message || error}`);
+      
+      // Fallback: treat as Polymarket custom proxy
+      this.safe = undefined;
+      this.safeThreshold = 1;
+      
+      // Basic validation that the proxy contract exists and signer can interact
+      try {
+        // Check if signer can call basic functions on the proxy
+        const balance = await this.provider.getBalance(this.proxyAddress);
+        log.info(`   ✅ Polymarket proxy detected (balance: ${ethers.formatEther(balance)} MATIC)`);
+        log.info(`   ✅ Signer address: ${signerAddress}`);
+        if (this.relayer) log.info(`   ✅ Gasless: transactions are relayed through ${this.relayer.url}`);
+      } catch (proxyError) {
+        throw new Error(`Failed to interact with proxy contract: ${(proxyError as any)?.message || proxyError}`);
+      }
+    }
+    
+    log.info(`✅ Connected to ${this.network.label}${this.forkRpcUrl ? ` (fork at ${this.forkRpcUrl})` : ''}`);
+    log.info(`✅ Safe initialized: ${this.proxyAddress}`);
+    log.info(`✅ Signer: ${signerAddress}`);
+    log.info(`✅ Contracts verified`);
+    return report;
+  }
+  
+  // Raw positions from the Polymarket data API, every page (throws DataApiError once retries are exhausted).
+  // Malformed records are quarantined: logged and reported as filtered, never claimed.
+  async fetchApiPositions(): Promise<Position[]> {
+    // IMPORTANT: Positions are held in the proxy wallet, not the EOA
+    // (no `redeemable` filter - it's unreliable and sometimes excludes winning positions)
+    const result = await this.dataApi.positions(this.proxyAddress.toLowerCase());
+    
+    for (const record of result.quarantined) {
+      log.warn(`⚠️  Quarantined data API record #${record.index}${record.title ? ` (${record.title})` : ''}: ${record.reason}`, { conditionId: record.conditionId, reason: record.reason });
+      this.discovery.quarantined.push({
+        conditionId: record.conditionId ?? '',
+        outcomeIndex: record.outcomeIndex ?? -1,
+        title: record.title ?? `record #${record.index}`,
+        stage: 'schema',
+        reason: `malformed data API record: ${record.reason}`,
+      });
+    }
+    if (result.truncated) {
+      this.markDegraded(`data API listed more than ${result.pages} pages of positions; the rest was not read (raise DATA_API_MAX_PAGES)`);
+    }
+    return result.positions;
+  }
+
+  // Discovery was incomplete this pass; reported in the run summary instead of a clean "nothing to claim"
+  private markDegraded(reason: string) {
+    log.warn(`⚠️  Position discovery degraded: ${reason}`);
+    this.discovery.degraded = this.discovery.degraded ? `${this.discovery.degraded}; ${reason}` : reason;
+  }
+
+  // Raw positions from the configured discovery source (--source api|chain|both)
+  async discoverPositions(): Promise<Position[]> {
+    const source = this.settings.source;
+    if (source === 'api') {
+      return this.fetchApiPositions();
+    }
+    if (source === 'chain') {
+      return this.chainSource.discover(this.proxyAddress);
+    }
+    
+    // both: use whatever is available, report where the sources disagree
+    const [apiResult, chainResult] = await Promise.allSettled([
+      this.fetchApiPositions(),
+      this.chainSource.discover(this.proxyAddress),
+    ]);
+    if (apiResult.status === 'rejected') {
+      this.markDegraded(`data API unavailable, using chain discovery only: ${apiResult.reason?.message || apiResult.reason}`);
+    }
+    if (chainResult.status === 'rejected') {
+      this.markDegraded(`chain discovery failed, using data API only: ${chainResult.reason?.message || chainResult.reason}`);
+    }
+    const apiPositions = apiResult.status === 'fulfilled' ? apiResult.value : [];
+    const chainPositions = chainResult.status === 'fulfilled' ? chainResult.value : [];
+    if (apiResult.status === 'rejected' && chainResult.status === 'rejected') {
+      throw new Error('Both position sources failed');
+    }
+    
+    if (apiResult.status === 'fulfilled' && chainResult.status === 'fulfilled') {
+      this.reportSourceDiscrepancies(apiPositions, chainPositions);
+    }
+    
+    // Union by token ID, preferring API records (they carry market metadata)
+    const byAsset = new Map<string, Position>();
+    for (const pos of chainPositions) byAsset.set(BigInt(pos.asset).toString(), pos);
+    for (const pos of apiPositions) byAsset.set(BigInt(pos.asset).toString(), pos);
+    return [...byAsset.values()];
+  }
+
+  private reportSourceDiscrepancies(apiPositions: Position[], chainPositions: Position[]) {
+    // Chain discovery only returns resolved, still-held positions; compare against the API's resolved ones
+    const apiResolved = new Map(apiPositions
+      .filter(p => p.size > 0 && (p.redeemable || p.curPrice === 1))
+      .map(p => [BigInt(p.asset).toString(), p]));
+    const chainHeld = new Map(chainPositions.map(p => [BigInt(p.asset).toString(), p]));
+    
+    const chainOnly = [...chainHeld.keys()].filter(id => !apiResolved.has(id));
+    const apiOnly = [...apiResolved.keys()].filter(id => !chainHeld.has(id));
+    
+    if (chainOnly.length === 0 && apiOnly.length === 0) {
+      log.info(`🔀 Sources agree: ${chainHeld.size} resolved position(s) found by both API and chain`);
+      return;
+    }
+    log.info(`🔀 Source discrepancies (API resolved: ${apiResolved.size}, chain: ${chainHeld.size}):`);
+    for (const id of chainOnly) {
+      const pos = chainHeld.get(id)!;
+      log.info(`   ⛓️  On chain but not reported resolved by API: ${pos.conditionId} outcome ${pos.outcomeIndex} (${pos.size} shares)`);
+    }
+    for (const id of apiOnly) {
+      const pos = apiResolved.get(id)!;
+      log.info(`   🌐 Reported by API but not found on chain: ${pos.title} (${pos.outcome}) - resolved before scan start or already redeemed?`);
+    }
+  }
+
+  // `prefetched` reuses raw positions already discovered this run
+  // Positions left out (and why) are appended to `filtered`, claim policy decisions to `decisions`
+  async fetchRedeemablePositions(prefetched?: Position[], filtered: FilteredPosition[] = [], decisions: PolicyDecision[] = []): Promise<Position[]> {
+    log.info(`🔍 Fetching redeemable positions (source: ${this.settings.source})...`);
+    
+    try {
+      const positions = prefetched || await this.discoverPositions();
+      log.info(`📊 Total positions fetched: ${positions.length}`);
+      filtered.push(...this.discovery.quarantined);
+      if (!this.discovery.degraded) {
+        this.held = new Set(positions.filter(pos => pos.size > 0).map(pos => pos.conditionId.toLowerCase()));
+      }
+      
+      // Pre-filter candidates from API data; claimability is then verified on-chain.
+      // curPrice < 1 is allowed so partially-winning markets (e.g. 50/50 resolutions) are not skipped.
+      const skip = (pos: Position, reason: string, stage: FilteredPosition['stage'] = 'api') => {
+        filtered.push({ conditionId: pos.conditionId, outcomeIndex: pos.outcomeIndex, title: pos.title, stage, reason });
+        return false;
+      };
+      const candidates = positions.filter(pos => {
+        // Must have shares to redeem
+        if (pos.size <= 0) return skip(pos, 'no shares');
+        
+        // No curPrice = 0 shortcut: whether an outcome lost is left to the on-chain payout numerators
+        
+        // Must look resolved: flagged redeemable, priced at 1, or past its end date
+        // (age windows such as "only the last 48 hours" are claim policy rules, see --policy).
+        // A resolution seen on chain (watch mode) wins over an API that has not caught up yet.
+        const ended = !!pos.endDate && new Date(pos.endDate).getTime() <= Date.now();
+        const resolved = this.discovery.resolved?.has(pos.conditionId.toLowerCase());
+        if (!pos.redeemable && pos.curPrice !== 1 && !ended && !resolved) return skip(pos, 'market not resolved');
+        
+        return true;
+      });
+      
+      // Log statistics
+      const redeemableCount = positions.filter(p => p.redeemable).length;
+      const winningCount = positions.filter(p => p.curPrice === 1).length;
+      
+      log.info(`📊 Found ${redeemableCount} positions marked redeemable`);
+      log.info(`📊 Found ${winningCount} winning positions (curPrice = 1)`);
+      log.info(`🔎 Verifying ${candidates.length} candidate positions on-chain...`);
+      
+      const { verified: claimable, dropped } = await this.verifier.verify(this.proxyAddress, candidates);
+      for (const { position, reason } of dropped) {
+        skip(position, `on-chain check: ${reason}`, 'onchain');
+        log.info(`   ⏭️  Dropping ${position.title} (${position.outcome}): ${reason}`, { conditionId: position.conditionId, outcomeIndex: position.outcomeIndex, reason });
+      }
+      const partialCount = claimable.filter(p => p.onChain && p.onChain.payoutNumerator < p.onChain.payoutDenominator).length;
+      
+      log.info(`✅ Found ${claimable.length} claimable winning positions${partialCount ? ` (${partialCount} partial payout)` : ''}`);
+      
+      // Skip anything the ledger says is already confirmed or still in flight
+      const notYetClaimed = claimable.filter(pos => {
+        const entry = this.ledger.shouldSkip(this.proxyAddress, pos.conditionId, pos.outcomeIndex);
+        if (entry) {
+          skip(pos, `ledger status ${entry.status}`, 'ledger');
+          log.info(`   ⏭️  Skipping ${pos.title} (${pos.outcome}): ledger status ${entry.status}${entry.txHash ? ` (${entry.txHash})` : ''}`, { conditionId: pos.conditionId, outcomeIndex: pos.outcomeIndex, txHash: entry.txHash });
+          return false;
+        }
+        return true;
+      });
+      if (notYetClaimed.length !== claimable.length) {
+        log.info(`📒 ${claimable.length - notYetClaimed.length} position(s) skipped by claim ledger`);
+      }
+      
+      // Claim policy: every remaining position gets a decision and the rule behind it
+      const policy = this.settings.policy;
+      const policyDecisions = policy.apply(notYetClaimed);
+      decisions.push(...policyDecisions);
+      if (policy.active) {
+        log.info(`📋 Claim policy decisions (${policyDecisions.filter(d => d.claim).length}/${policyDecisions.length} claimed):`);
+      }
+      for (const { position, claim, rule, detail } of policyDecisions) {
+        if (!claim) skip(position, `policy ${rule}: ${detail}`, 'policy');
+        if (policy.active) {
+          log.info(`   ${claim ? '✅ claim' : '⏭️  skip '} ${position.title} (${position.outcome}): ${rule} - ${detail}`, { conditionId: position.conditionId, outcomeIndex: position.outcomeIndex, claim, rule });
+        }
+      }
+      
+      const accepted = policyDecisions.filter(d => d.claim).map(d => d.position);
+      for (const position of accepted) this.publish('positionFound', position);
+      return accepted;
+      
+    } catch (error: any) {
+      log.error(`❌ Failed to fetch positions: ${error?.message || error}`, { error });
+      this.markDegraded(`position discovery failed: ${error?.message || error}`);
+      return [];
+    }
+  }
+  
+  // Redemption calldata for one condition.
+  // Regular markets: CTF redeemPositions with the held outcomes' index sets (`values`).
+  // Neg-risk markets: NegRiskAdapter redeemPositions with exact [YES, NO] amounts (`values`).
+  buildRedemptionCalldata(conditionId: string, negativeRisk: boolean, values: bigint[]): string {
+    if (negativeRisk) {
+      return negRiskAdapterInterface.encodeFunctionData('redeemPositions', [
+        conditionId,
+        values,
+      ]);
+    } else {
+      const ctfInterface = new ethers.Interface([
+        'function redeemPositions(address collateralToken, bytes32 parentCollectionId, bytes32 conditionId, uint256[] indexSets)',
+      ]);
+      
+      return ctfInterface.encodeFunctionData('redeemPositions', [
+        this.network.usdcAddress,
+        ethers.ZeroHash,
+        conditionId,
+        values,
+      ]);
+    }
+  }
+  
+  // Target contracts + calldata redeeming every position of one condition
+  async buildConditionCalls(conditionId: string, positions: Position[]): Promise<ClaimCall[]> {
+    if (!positions[0].negativeRisk) {
+      const indexSets = [...new Set(positions.map(p => 1n << BigInt(p.outcomeIndex)))];
+      return [{ to: this.network.ctfAddress, data: this.buildRedemptionCalldata(conditionId, false, indexSets) }];
+    }
+    
+    // Neg risk: redeem exact on-chain balances of both outcomes in one call
+    const holdings = await this.negRisk.holdings(this.proxyAddress, conditionId, positions);
+    const calls: ClaimCall[] = [];
+    let { yes, no } = holdings;
+    
+    // Optionally merge complementary YES+NO pairs back into USDC first
+    const merge = yes < no ? yes : no;
+    if (this.settings.negRiskMerge && merge > 0n && positions.some(p => p.mergeable)) {
+      log.info(`   🔗 Merging ${ethers.formatUnits(merge, 6)} YES/NO pairs for ${conditionId}`);
+      calls.push({ to: requireNetworkAddress(this.network, 'negRiskAdapterAddress'), data: negRiskAdapterInterface.encodeFunctionData('mergePositions', [conditionId, merge]) });
+      yes -= merge;
+      no -= merge;
+    }
+    
+    if (yes > 0n || no > 0n) {
+      calls.push({ to: requireNetworkAddress(this.network, 'negRiskAdapterAddress'), data: this.buildRedemptionCalldata(conditionId, true, [yes, no]) });
+    }
+    return calls;
+  }
+  
+  async buildClaimCalls(positions: Position[]): Promise<ClaimCall[]> {
+    const calls: ClaimCall[] = [];
+    for (const group of groupByCondition(positions)) {
+      calls.push(...await this.buildConditionCalls(group[0].conditionId, group));
+    }
+    return calls;
+  }
+
+  private getProxyFactory(): ethers.Contract {
+    return new ethers.Contract(requireNetworkAddress(this.network, 'proxyWalletFactoryAddress'), PROXY_FACTORY_ABI, this.signer);
+  }
+
+  private toProxyCalls(calls: ClaimCall[]) {
+    return calls.map(call => ({
+      to: call.to,
+      typeCode: 1, // Call type
+      data: call.data,
+      value: call.value ?? 0n,
+    }));
+  }
+
+  // Build, sign and encode the Safe execTransaction for a set of calls (MultiSend when > 1 call)
+  private async encodeSafeExecution(calls: ClaimCall[]): Promise<string> {
+    if (!this.safe) throw new Error('Safe not initialized');
+    const safeTransaction = await this.safe.createTransaction({
+      transactions: calls.map(call => ({
+        to: call.to,
+        value: (call.value ?? 0n).toString(),
+        data: call.data,
+        operation: 0, // Call
+      })),
+    });
+    const signedTx = await this.safe.signTransaction(safeTransaction);
+    return this.safe.getEncodedTransaction(signedTx);
+  }
+
+  // Simulate the exact transaction the active execution path would send (eth_call + estimateGas)
+  async simulateBatch(calls: ClaimCall[]): Promise<SimulationResult> {
+    if (this.multisig) {
+      // execTransaction can't be simulated before the other owners have signed
+      return this.simulator.simulateCalls(this.proxyAddress, calls);
+    }
+    if (this.safe) {
+      const execData = await this.encodeSafeExecution(calls);
+      return this.simulator.simulateSafe(await this.signer.getAddress(), this.proxyAddress, execData);
+    }
+    return this.simulator.simulateProxy(this.getProxyFactory(), this.proxyAddress, this.toProxyCalls(calls));
+  }
+
+  // Safe whose threshold the local signer can't meet alone
+  private get multisig(): boolean {
+    return !!this.safe && this.safeThreshold > 1;
+  }
+
+  // Proxy wallet whose transactions go through the relayer (--gasless); the EOA pays no gas
+  private get gasless(): boolean {
+    return !!this.relayer && !this.safe;
+  }
+
+  async claimViaGnosisSafe(positions: Position[], extraCalls: ClaimCall[] = []): Promise<ClaimResult> {
+    try {
+      const calls = [...await this.buildClaimCalls(positions), ...extraCalls];
+      if (this.multisig) return await this.proposeViaSafeService(positions, calls);
+      return await this.executeViaGnosisSafe(calls, 'claim', txHash => this.recordSubmitted(positions, txHash));
+    } catch (error: any) {
+      const errorMsg = error.reason || error.message || 'Unknown error';
+      log.error(`   ❌ Gnosis Safe claim failed: ${errorMsg}`, { error: errorMsg });
+      return { success: false, error: errorMsg, reverted: isRevertError(error) };
+    }
+  }
+
+  async claimViaPolymarketProxy(positions: Position[], extraCalls: ClaimCall[] = []): Promise<ClaimResult> {
+    try {
+      const calls = [...await this.buildClaimCalls(positions), ...extraCalls];
+      return await this.executeViaPolymarketProxy(calls, 'claim', txHash => this.recordSubmitted(positions, txHash));
+    } catch (error: any) {
+      const errorMsg = error.reason || error.message || 'Unknown error';
+      log.error(`   ❌ Proxy factory claim failed: ${errorMsg}`, { error: errorMsg });
+      return { success: false, error: errorMsg, reverted: isRevertError(error) };
+    }
+  }
+
+  // Execute calls from the Safe in one transaction (MultiSend when > 1 call).
+  // `action` labels log lines; `onSubmitted` fires as soon as the tx hash is known.
+  async executeViaGnosisSafe(calls: ClaimCall[], action: string, onSubmitted?: (txHash: string) => void): Promise<ClaimResult> {
+    if (!this.safe) throw new Error('Safe not initialized');
+    if (this.multisig) {
+      // Only claims are proposed; merges, sweeps and top-ups need a threshold-1 Safe
+      log.warn(`   ⚠️  ${capitalize(action)} skipped: Safe threshold ${this.safeThreshold} needs confirmations from other owners`);
+      return { success: false, error: `Safe threshold ${this.safeThreshold} needs confirmations from other owners` };
+    }
+    // Sign via Safe SDK, then send execTransaction ourselves so fees, nonce and replacement are managed
+    return this.sendSafeExecution(() => this.encodeSafeExecution(calls), action, onSubmitted);
+  }
+
+  // Send an encoded execTransaction from the signer and wait for it through the gas manager
+  private async sendSafeExecution(encode: () => Promise<string>, action: string, onSubmitted?: (txHash: string) => void): Promise<ClaimResult> {
+    try {
+      const execData = await encode();
+      
+      const outcome = await this.gas.send(this.signer, { to: this.proxyAddress, data: execData }, hash => {
+        log.info(`   📡 Safe transaction sent: ${hash}`, { txHash: hash, action });
+        onSubmitted?.(hash);
+      });
+      const txHash = outcome.hash;
+      const receipt = outcome.receipt;
+      if (outcome.pending) {
+        return { success: false, error: 'Transaction not mined yet', txHash, pending: true };
+      }
+      if (receipt && receipt.status === 0) {
+        log.info(`   ❌ Safe transaction reverted!`, { txHash, action });
+        return { success: false, error: 'Transaction reverted', txHash, reverted: true, blockNumber: receipt.blockNumber, gasUsed: receipt.gasUsed };
+      }
+      
+      log.info(`   ✅ ${capitalize(action)} executed via Gnosis Safe! TX: ${txHash}`, { txHash, action, blockNumber: receipt?.blockNumber });
+      return {
+        success: true,
+        txHash,
+        blockNumber: receipt?.blockNumber,
+        gasUsed: receipt?.gasUsed,
+        payouts: receipt ? this.parsePayouts(receipt) : undefined,
+      };
+      
+    } catch (error: any) {
+      if (error instanceof GasDeferredError) {
+        log.info(`   ⏸️  ${capitalize(action)} deferred: ${error.message}`);
+        return { success: false, error: error.message, deferred: true };
+      }
+      const errorMsg = error.reason || error.message || 'Unknown error';
+      log.error(`   ❌ Gnosis Safe ${action} failed: ${errorMsg}`, { action, error: errorMsg });
+      return { success: false, error: errorMsg, reverted: isRevertError(error) };
+    }
+  }
+
+  // Multisig Safes: sign the claim and propose it to the Safe Transaction Service. The positions
+  // stay pending in the ledger under the proposal's safeTxHash, so later runs don't propose them
+  // again; processProposals() executes the proposal once the other owners have confirmed it.
+  private async proposeViaSafeService(positions: Position[], calls: ClaimCall[]): Promise<ClaimResult> {
+    if (this.forkRpcUrl) throw new Error('Safe proposals are disabled on a fork (the service tracks the real network)');
+    if (!this.safeTxService) throw new Error(`No Safe Transaction Service for network ${this.network.name}; set --safe-tx-service`);
+    const safe = this.safe!;
+    const nonce = await this.nextSafeNonce();
+    const safeTransaction = await safe.createTransaction({
+      transactions: calls.map(call => ({ to: call.to, value: (call.value ?? 0n).toString(), data: call.data, operation: 0 })),
+      options: { nonce },
+    });
+    const safeTxHash = await safe.getTransactionHash(safeTransaction);
+    const sender = await this.signer.getAddress();
+    const signature = (await safe.signTransaction(safeTransaction)).getSignature(sender);
+    if (!signature) throw new Error(`Safe SDK returned no signature for ${sender}`);
+    
+    await this.safeTxService.propose(this.proxyAddress, {
+      ...safeTransaction.data,
+      contractTransactionHash: safeTxHash,
+      sender,
+      signature: signature.data,
+      origin: 'polymarket-auto-claimer',
+    });
+    for (const position of positions) {
+      this.ledger.record({
+        proxyAddress: this.proxyAddress,
+        conditionId: position.conditionId,
+        outcomeIndex: position.outcomeIndex,
+        status: 'pending',
+        title: position.title,
+        safeTxHash,
+        safeNonce: nonce,
+        expectedPayout: expectedPayoutUsdc(position),
+      });
+    }
+    
+    const missing = this.safeThreshold - 1;
+    log.info(`   🗳️  Proposed to the Safe Transaction Service (nonce ${nonce}): ${safeTxHash}`, { safeTxHash, nonce });
+    log.info(`      Waiting for ${missing} more confirmation(s); a later run executes it`);
+    return { success: false, pending: true, proposed: true, safeTxHash, error: `Awaiting ${missing} more Safe confirmation(s)` };
+  }
+
+  // Next free Safe nonce: after the on-chain nonce and after every proposal of ours still queued
+  private async nextSafeNonce(): Promise<number> {
+    let nonce = Number(await this.safe!.getNonce());
+    for (const entry of this.ledger.pending(this.proxyAddress)) {
+      if (entry.safeTxHash && !entry.txHash && entry.safeNonce !== undefined && entry.safeNonce >= nonce) {
+        nonce = entry.safeNonce + 1;
+      }
+    }
+    return nonce;
+  }
+
+  // Settle the Safe proposals of earlier runs: execute those with enough confirmations,
+  // pick up those another owner executed, and give up on those whose nonce was taken
+  // by another transaction (their positions are proposed again).
+  async processProposals(dryRun: boolean) {
+    const proposals = new Map<string, LedgerEntry[]>();
+    for (const entry of this.ledger.pending(this.proxyAddress)) {
+      if (!entry.safeTxHash || entry.txHash) continue;
+      proposals.set(entry.safeTxHash, [...proposals.get(entry.safeTxHash) || [], entry]);
+    }
+    if (proposals.size === 0 || !this.safe || !this.safeTxService || this.forkRpcUrl) return;
+    
+    log.info(`\n🗳️  Checking ${proposals.size} Safe proposal(s) on ${this.safeTxService.url}...`);
+    const onChainNonce = Number(await this.safe.getNonce());
+    for (const [safeTxHash, entries] of proposals) {
+      try {
+        await this.settleProposal(safeTxHash, entries, onChainNonce, dryRun);
+      } catch (error: any) {
+        if (error instanceof RunLockLostError) throw error;
+        // Left pending; checked again on the next run
+        log.error(`   ❌ Proposal ${safeTxHash}: ${error.reason || error.message || error}`);
+      }
+    }
+  }
+
+  private async settleProposal(safeTxHash: string, entries: LedgerEntry[], onChainNonce: number, dryRun: boolean) {
+    const label = `${entries.length} position(s), nonce ${entries[0].safeNonce}`;
+    const abandon = (reason: string) => {
+      log.info(`   ❌ ${safeTxHash} (${label}): ${reason}; the positions will be proposed again`);
+      for (const entry of entries) this.ledger.record({ ...entry, status: 'failed', error: reason });
+    };
+    
+    const proposal = await this.safeTxService!.getTransaction(safeTxHash);
+    if (!proposal) return abandon('proposal not found on the Safe Transaction Service');
+    if (proposal.isExecuted && proposal.transactionHash) {
+      // Executed by another owner; reconcileLedger() settles it from the receipt
+      log.info(`   ✅ ${safeTxHash} (${label}) was executed: ${proposal.transactionHash}`);
+      for (const entry of entries) this.ledger.record({ ...entry, txHash: proposal.transactionHash });
+      return;
+    }
+    if (proposal.nonce < onChainNonce) return abandon(`Safe nonce ${proposal.nonce} was used by another transaction`);
+    
+    const confirmations = proposal.confirmations.length;
+    if (confirmations < proposal.confirmationsRequired) {
+      log.info(`   ⏳ ${safeTxHash} (${label}): ${confirmations}/${proposal.confirmationsRequired} confirmations`);
+      return;
+    }
+    if (proposal.nonce > onChainNonce) {
+      log.info(`   ⏳ ${safeTxHash} (${label}): confirmed, waiting for Safe nonce ${onChainNonce} to be executed first`);
+      return;
+    }
+    if (dryRun) {
+      log.info(`   ✅ [DRY RUN] Would execute ${safeTxHash} (${label}): ${confirmations}/${proposal.confirmationsRequired} confirmations`);
+      return;
+    }
+    
+    // Executing is where a multisig claim pays gas, so the fee ceiling applies here rather than to the proposal
+    const deferReason = await this.gas.deferReason();
+    if (deferReason) {
+      log.info(`   ⏸️  ${safeTxHash} (${label}): confirmed, deferring execution: ${deferReason}`, { reason: deferReason });
+      return;
+    }
+    
+    this.checkLock();
+    const result = await this.sendSafeExecution(async () => {
+      const safe = this.safe!;
+      const safeTransaction = await safe.createTransaction({
+        transactions: [{ to: proposal.to, value: proposal.value, data: proposal.data || '0x', operation: proposal.operation }],
+        options: {
+          nonce: proposal.nonce,
+          safeTxGas: String(proposal.safeTxGas),
+          baseGas: String(proposal.baseGas),
+          gasPrice: proposal.gasPrice,
+          gasToken: proposal.gasToken,
+          refundReceiver: proposal.refundReceiver,
+        },
+      });
+      // Never execute something other than what we proposed
+      if (await safe.getTransactionHash(safeTransaction) !== safeTxHash) {
+        throw new Error('transaction data from the service does not match the proposed safeTxHash');
+      }
+      for (const confirmation of proposal.confirmations) {
+        safeTransaction.addSignature(new EthSafeSignature(confirmation.owner, confirmation.signature));
+      }
+      return safe.getEncodedTransaction(safeTransaction);
+    }, 'claim', hash => {
+      for (const entry of entries) this.ledger.record({ ...entry, txHash: hash });
+    });
+    
+    // Not mined yet: the entries carry the txHash now and reconcileLedger() picks them up
+    if (!result.txHash || result.pending) return;
+    for (const entry of entries) {
+      const payout = result.payouts?.get(entry.conditionId.toLowerCase());
+      this.ledger.record({
+        ...entry,
+        status: result.success ? 'confirmed' : 'failed',
+        txHash: result.txHash,
+        blockNumber: result.blockNumber,
+        gasUsed: result.gasUsed?.toString(),
+        payout: payout !== undefined ? ethers.formatUnits(payout, 6) : undefined,
+        error: result.error,
+      });
+    }
+  }
+
+  async claimViaRelayer(positions: Position[], extraCalls: ClaimCall[] = []): Promise<ClaimResult> {
+    try {
+      const calls = [...await this.buildClaimCalls(positions), ...extraCalls];
+      return await this.executeViaRelayer(calls, 'claim', txHash => this.recordSubmitted(positions, txHash));
+    } catch (error: any) {
+      const errorMsg = error.reason || error.message || 'Unknown error';
+      log.error(`   ❌ Relayed claim failed: ${errorMsg}`, { error: errorMsg });
+      return { success: false, error: errorMsg, reverted: isRevertError(error) };
+    }
+  }
+
+  // Execution path for everything that isn't a claim (merges, sweeps, gas top-ups)
+  private executeCalls(calls: ClaimCall[], action: string, onSubmitted?: (txHash: string) => void): Promise<ClaimResult> {
+    if (this.safe) return this.executeViaGnosisSafe(calls, action, onSubmitted);
+    return this.gasless
+      ? this.executeViaRelayer(calls, action, onSubmitted)
+      : this.executeViaPolymarketProxy(calls, action, onSubmitted);
+  }
+
+  // Execute calls from the proxy wallet via ProxyWalletFactory.proxy(calls[]), submitted
+  // by Polymarket's relayer from a request the EOA signs (--gasless); the relayer pays gas.
+  async executeViaRelayer(calls: ClaimCall[], action: string, onSubmitted?: (txHash: string) => void): Promise<ClaimResult> {
+    try {
+      const factory = this.getProxyFactory();
+      const proxyCalls = this.toProxyCalls(calls);
+      // Headroom for the relay hub's own overhead on top of the factory call
+      const gasLimit = await factory.proxy.estimateGas(proxyCalls) * 13n / 10n;
+      
+      log.info(`   📡 Relaying ${action} through ${this.relayer!.url} (${calls.length} call(s), gas limit ${gasLimit})...`);
+      const outcome = await this.relayer!.relay(this.signer, {
+        proxyWallet: this.proxyAddress,
+        factory: await factory.getAddress(),
+        data: factory.interface.encodeFunctionData('proxy', [proxyCalls]),
+        gasLimit,
+      }, hash => {
+        log.info(`   📡 Relayed transaction: ${hash}`, { txHash: hash, action });
+        onSubmitted?.(hash);
+      });
+      const txHash = outcome.hash;
+      const receipt = outcome.receipt;
+      
+      if (outcome.pending) {
+        return { success: false, error: `Relayed transaction not mined yet (relayer state ${outcome.state})`, txHash, pending: true };
+      }
+      if (!receipt) {
+        log.info(`   ❌ Relayer reported ${outcome.state}`, { relayId: outcome.id, action });
+        return { success: false, error: `Relayer reported ${outcome.state}`, txHash };
+      }
+      if (receipt.status === 0) {
+        log.info(`   ❌ Relayed transaction reverted!`, { txHash, action });
+        return { success: false, error: 'Transaction reverted', txHash, reverted: true, blockNumber: receipt.blockNumber, gasUsed: receipt.gasUsed };
+      }
+      
+      log.info(`   ✅ ${capitalize(action)} succeeded (gasless)! TX: ${txHash}`, { txHash, action, blockNumber: receipt.blockNumber });
+      return {
+        success: true,
+        txHash,
+        blockNumber: receipt.blockNumber,
+        gasUsed: receipt.gasUsed,
+        payouts: this.parsePayouts(receipt),
+      };
+    } catch (error: any) {
+      const errorMsg = error.reason || error.message || 'Unknown error';
+      log.error(`   ❌ Relayed ${action} failed: ${errorMsg}`, { action, error: errorMsg });
+      return { success: false, error: errorMsg, reverted: isRevertError(error) };
+    }
+  }
+
+  // Execute calls from the proxy wallet via ProxyWalletFactory.proxy(calls[]); the EOA pays gas.
+  async executeViaPolymarketProxy(calls: ClaimCall[], action: string, onSubmitted?: (txHash: string) => void): Promise<ClaimResult> {
+    try {
+      log.info('\n   🔍 Using Polymarket Proxy Wallet Factory');
+      
+      // Check if EOA has gas funds first
+      const signerAddress = await this.signer.getAddress();
+      const balance = await this.provider.getBalance(signerAddress);
+      const balanceEth = ethers.formatEther(balance);
+      
+      log.info(`      - EOA MATIC balance: ${balanceEth}`);
+      
+      if (balance === 0n) {
+        log.info('   ⚠️  No MATIC for gas fees in EOA');
+        log.info('   💡 You need to add some MATIC to your EOA address for gas fees');
+        log.info(`   💡 Send 0.01-0.1 MATIC to: ${signerAddress}`);
+        return { 
+          success: false, 
+          error: `No MATIC for gas fees. Send MATIC to ${signerAddress}` 
+        };
+      }
+      
+      // Profiles and overrides may spell addresses in any case
+      const ctf = this.network.ctfAddress.toLowerCase();
+      const negRiskAdapter = this.network.negRiskAdapterAddress?.toLowerCase();
+      const negRiskCount = calls.filter(c => c.to.toLowerCase() === negRiskAdapter).length;
+      const otherCount = calls.filter(c => c.to.toLowerCase() !== ctf && c.to.toLowerCase() !== negRiskAdapter).length; // sweep, top-up
+      
+      log.info('\n   📝 Creating Proxy Factory transaction...');
+      log.info(`      - Proxy Wallet (Safe): ${this.proxyAddress}`);
+      log.info(`      - Calls: ${calls.length} (${calls.length - negRiskCount - otherCount} CTF, ${negRiskCount} Neg Risk Adapter${otherCount ? `, ${otherCount} other` : ''})`);
+      log.info(`      - Signer (EOA): ${signerAddress} pays gas`);
+      
+      const factory = this.getProxyFactory();
+      
+      log.info(`   📡 Sending transaction through Proxy Factory...`);
+      const outcome = await this.gas.send(this.signer, {
+        to: await factory.getAddress(),
+        data: factory.interface.encodeFunctionData('proxy', [this.toProxyCalls(calls)]),
+      }, hash => {
+        log.info(`   📡 Transaction sent: ${hash}`, { txHash: hash, action });
+        onSubmitted?.(hash);
+        log.info(`   ⏳ Waiting for confirmation...`);
+      });
+      const txHash = outcome.hash;
+      const receipt = outcome.receipt;
+      
+      if (outcome.pending) {
+        return { success: false, error: 'Transaction not mined yet', txHash, pending: true };
+      }
+      
+      if (!receipt) {
+        log.info(`   ❌ Transaction receipt is null`);
+        return { success: false, error: 'Transaction receipt is null' };
+      }
+      
+      if (receipt.status === 0) {
+        log.info(`   ❌ Transaction reverted!`, { txHash, action });
+        return { success: false, error: 'Transaction reverted', txHash, reverted: true, blockNumber: receipt.blockNumber, gasUsed: receipt.gasUsed };
+      }
+      
+      log.info(`   ✅ ${capitalize(action)} succeeded! TX: ${txHash}`, { txHash, action, blockNumber: receipt.blockNumber });
+      log.info(`   ✅ Confirmed in block ${receipt.blockNumber}`);
+      
+      return {
+        success: true,
+        txHash,
+        blockNumber: receipt.blockNumber,
+        gasUsed: receipt.gasUsed,
+        payouts: this.parsePayouts(receipt),
+      };
+      
+    } catch (error: any) {
+      if (error instanceof GasDeferredError) {
+        log.info(`   ⏸️  ${capitalize(action)} deferred: ${error.message}`);
+        return { success: false, error: error.message, deferred: true };
+      }
+      const errorMsg = error.reason || error.message || 'Unknown error';
+      log.error(`   ❌ Proxy factory ${action} failed: ${errorMsg}`, { action, error: errorMsg });
+      
+      if (errorMsg.includes('insufficient funds')) {
+        log.info('   💡 Add MATIC to your EOA for gas fees');
+        log.info(`   💡 Send 0.01-0.1 MATIC to: ${await this.signer.getAddress()}`);
+      }
+      
+      return { success: false, error: errorMsg, reverted: isRevertError(error) };
+    }
+  }
+  
+  // Redeem a batch of positions in a single transaction
+  // `simulation` is the pre-flight result for this batch, when one was run
+  async claimBatch(positions: Position[], dryRun: boolean = false, simulation?: SimulationResult, extraCalls: ClaimCall[] = []): Promise<ClaimResult> {
+    log.info(`\n💰 ${dryRun ? '[DRY RUN] Would claim' : 'Claiming'} ${positions.length} position(s) in one transaction:`);
+    for (const position of positions) {
+      log.info(`   • ${position.title}`);
+      log.info(`     Outcome: ${position.outcome} (index ${position.outcomeIndex}) | Size: ${position.size} shares | Payout: ${expectedPayoutUsdc(position)} USDC`);
+      log.info(`     Condition ID: ${position.conditionId}`, { conditionId: position.conditionId, outcomeIndex: position.outcomeIndex });
+    }
+    
+    if (dryRun) {
+      const expected = positions.reduce((sum, pos) => sum + expectedPayoutUsdc(pos), 0);
+      log.info(`   ✅ [DRY RUN] Would redeem batch with:`);
+      log.info(`      - Expected payout: ${expected} USDC`);
+      if (simulation) {
+        const simulated = this.multisig ? 'calls from the Safe; proposed for confirmation'
+          : this.safe ? 'Safe execTransaction'
+          : `ProxyWalletFactory.proxy${this.gasless ? ', relayed' : ''}`;
+        log.info(`      - Simulation: ✅ succeeds (${simulated})`);
+        log.info(`      - Estimated gas: ${simulation.gasEstimate ?? 'n/a'}`);
+        if (simulation.usdcDelta !== undefined) {
+          log.info(`      - Simulated USDC delta on proxy: +${ethers.formatUnits(simulation.usdcDelta, 6)} USDC`);
+        } else {
+          log.info(`      - USDC delta on proxy: +${expected} USDC (expected; Safe simulation returns no balances)`);
+        }
+      }
+      return { success: true, txHash: 'DRY_RUN' };
+    }
+    
+    // Handle both standard Safe and Polymarket proxy modes
+    const result = this.safe
+      ? await this.claimViaGnosisSafe(positions, extraCalls)
+      : this.gasless
+        ? await this.claimViaRelayer(positions, extraCalls)
+        : await this.claimViaPolymarketProxy(positions, extraCalls);
+    this.recordOutcome(positions, result);
+    if (result.success && extraCalls.length > 0) result.swept = true;
+    return result;
+  }
+
+  // Sum USDC paid to the proxy per condition from CTF PayoutRedemption events
+  private parsePayouts(receipt: ethers.TransactionReceipt): Map<string, bigint> {
+    const ctfInterface = new ethers.Interface(CTF_ABI);
+    const payouts = new Map<string, bigint>();
+    for (const log of receipt.logs) {
+      if (log.address.toLowerCase() !== this.network.ctfAddress.toLowerCase()) continue;
+      const parsed = ctfInterface.parseLog(log);
+      if (!parsed || parsed.name !== 'PayoutRedemption') continue;
+      if (parsed.args.redeemer.toLowerCase() !== this.proxyAddress.toLowerCase()) continue;
+      const conditionId = (parsed.args.conditionId as string).toLowerCase();
+      payouts.set(conditionId, (payouts.get(conditionId) || 0n) + parsed.args.payout);
+    }
+    return payouts;
+  }
+
+  // Mark positions as in flight as soon as a transaction hash exists, so a
+  // crash while waiting for the receipt can be reconciled on the next start.
+  private recordSubmitted(positions: Position[], txHash: string) {
+    for (const position of positions) {
+      this.ledger.record({
+        proxyAddress: this.proxyAddress,
+        conditionId: position.conditionId,
+        outcomeIndex: position.outcomeIndex,
+        status: 'pending',
+        title: position.title,
+        txHash,
+        expectedPayout: expectedPayoutUsdc(position),
+      });
+    }
+    this.publish('claimSubmitted', { account: this.name, positions, txHash });
+  }
+
+  private recordOutcome(positions: Position[], result: ClaimResult) {
+    // Deferred claims were never sent; pending ones keep their 'pending' ledger entry
+    if (result.deferred || result.pending) return;
+    for (const position of positions) {
+      const payout = result.payouts?.get(position.conditionId.toLowerCase());
+      this.ledger.record({
+        proxyAddress: this.proxyAddress,
+        conditionId: position.conditionId,
+        outcomeIndex: position.outcomeIndex,
+        status: result.success ? 'confirmed' : 'failed',
+        title: position.title,
+        txHash: result.txHash,
+        blockNumber: result.blockNumber,
+        gasUsed: result.gasUsed?.toString(),
+        expectedPayout: expectedPayoutUsdc(position),
+        payout: payout !== undefined ? ethers.formatUnits(payout, 6) : undefined,
+        error: result.error,
+      });
+    }
+    for (const position of positions) {
+      const payout = result.payouts?.get(position.conditionId.toLowerCase());
+      if (result.success) {
+        this.publish('claimConfirmed', {
+          account: this.name,
+          position,
+          txHash: result.txHash,
+          blockNumber: result.blockNumber,
+          payout: expectedPayoutUsdc(position),
+          conditionPayout: payout !== undefined ? Number(ethers.formatUnits(payout, 6)) : undefined,
+        });
+      } else {
+        this.publish('claimFailed', { account: this.name, position, error: result.error || 'Unknown error', txHash: result.txHash });
+      }
+    }
+  }
+
+  // Settle pending ledger entries left behind by a previous (crashed) run
+  async reconcileLedger() {
+    const pending = this.ledger.pending(this.proxyAddress);
+    if (pending.length === 0) return;
+    
+    log.info(`📒 Reconciling ${pending.length} pending claim(s) from ${this.ledger.path}...`);
+    const summary = await this.ledger.reconcile(this.provider, this.proxyAddress);
+    log.info(`   ✅ Confirmed: ${summary.confirmed} | ❌ Failed: ${summary.failed} | ⏳ Still pending: ${summary.stillPending}`);
+  }
+
+  async claimPosition(position: Position, dryRun: boolean = false): Promise<ClaimResult> {
+    return this.claimBatch([position], dryRun);
+  }
+
+  // Claim a batch, splitting it in half whenever it exceeds the gas ceiling
+  // or reverts, until the offending condition is isolated on its own.
+  // Splits happen on condition boundaries: positions of one condition share a call.
+  // `extraCalls` ride along in the same transaction (the sweep transfer); they go with the
+  // last half on a split and are dropped if they make a single condition's claim fail.
+  async claimWithBisection(positions: Position[], dryRun: boolean = false, extraCalls: ClaimCall[] = []): Promise<Array<{ position: Position; result: ClaimResult }>> {
+    const groups = groupByCondition(positions);
+    const bisect = async (reason: string) => {
+      const mid = Math.ceil(groups.length / 2);
+      const left = groups.slice(0, mid).flat();
+      const right = groups.slice(mid).flat();
+      log.info(`   ✂️  Splitting batch of ${positions.length} (${reason}) into ${left.length} + ${right.length}`);
+      return [
+        ...await this.claimWithBisection(left, dryRun),
+        ...await this.claimWithBisection(right, dryRun, extraCalls),
+      ];
+    };
+    
+    // Pre-flight simulation (dry-run and live): never burn gas on a transaction that would revert
+    const simulation = await this.simulateBatch([...await this.buildClaimCalls(positions), ...extraCalls]);
+    if (!simulation.ok) {
+      if (groups.length > 1) {
+        return bisect(`simulation reverted: ${simulation.revertReason}`);
+      }
+      if (extraCalls.length > 0) {
+        log.info(`   ⚠️  Claim with sweep transfer fails simulation (${simulation.revertReason}); claiming without it`);
+        return this.claimWithBisection(positions, dryRun);
+      }
+      log.info(`   ⛔ Skipping ${positions[0].title}: simulation failed: ${simulation.revertReason}`, { conditionId: positions[0].conditionId, reason: simulation.revertReason });
+      const result: ClaimResult = { success: false, error: `Simulation failed: ${simulation.revertReason}` };
+      if (!dryRun) this.recordOutcome(positions, result);
+      return positions.map(position => ({ position, result }));
+    }
+    
+    if (!dryRun) {
+      const gas = simulation.gasEstimate;
+      if (gas !== undefined) {
+        if (gas > this.settings.maxBatchGas && groups.length > 1) {
+          return bisect(`estimated gas ${gas} > ceiling ${this.settings.maxBatchGas}`);
+        }
+        
+        // Defer when fees are above the ceiling, the run budget is spent, or gas isn't worth the payout
+        // (gasless claims and multisig proposals cost the EOA nothing)
+        const payout = positions.reduce((sum, p) => sum + expectedPayoutUsdc(p), 0);
+        const skipReason = this.gasless || this.multisig ? undefined : await this.gas.deferReason() || await this.gas.costCheck(gas, payout);
+        if (skipReason) {
+          log.info(`   ⏸️  Deferring ${positions.length} position(s): ${skipReason}`, { reason: skipReason });
+          const result: ClaimResult = { success: false, error: skipReason, deferred: true };
+          return positions.map(position => ({ position, result }));
+        }
+      }
+    }
+    
+    if (!dryRun) this.checkLock();
+    const result = await this.claimBatch(positions, dryRun, simulation, extraCalls);
+    if (!result.success && result.reverted && groups.length > 1) {
+      return bisect('transaction reverted');
+    }
+    return positions.map(position => ({ position, result }));
+  }
+
+  // Merge YES/NO pairs of unresolved conditions back into USDC (--merge)
+  async runMerges(positions: Position[], dryRun: boolean, summary: RunSummary) {
+    log.info('\n🔗 Looking for mergeable YES/NO pairs...');
+    try {
+      const candidates = await this.mergePlanner.plan(this.proxyAddress, positions);
+      if (candidates.length === 0) {
+        log.info('   ✨ Nothing to merge');
+        return;
+      }
+      
+      for (const candidate of candidates) {
+        log.info(`   • ${candidate.title}: ${ethers.formatUnits(candidate.amount, 6)} pairs${candidate.negativeRisk ? ' (neg risk)' : ''}`);
+      }
+      const total = candidates.reduce((sum, c) => sum + c.amount, 0n);
+      
+      if (dryRun) {
+        log.info(`   ✅ [DRY RUN] Would merge ${candidates.length} condition(s), freeing ${ethers.formatUnits(total, 6)} USDC`);
+        summary.merged += candidates.length;
+        summary.mergedUsdc += Number(ethers.formatUnits(total, 6));
+        return;
+      }
+      
+      const ctfInterface = new ethers.Interface(CTF_ABI);
+      for (let i = 0; i < candidates.length; i += this.settings.batchSize) {
+        const chunk = candidates.slice(i, i + this.settings.batchSize);
+        const calls: ClaimCall[] = chunk.map(c => c.negativeRisk
+          ? { to: requireNetworkAddress(this.network, 'negRiskAdapterAddress'), data: negRiskAdapterInterface.encodeFunctionData('mergePositions', [c.conditionId, c.amount]) }
+          : { to: this.network.ctfAddress, data: ctfInterface.encodeFunctionData('mergePositions', [this.network.usdcAddress, ethers.ZeroHash, c.conditionId, [1, 2], c.amount]) });
+        
+        this.checkLock();
+        const result = await this.executeCalls(calls, 'merge');
+        if (result.success) {
+          const freed = chunk.reduce((sum, c) => sum + c.amount, 0n);
+          summary.merged += chunk.length;
+          summary.mergedUsdc += Number(ethers.formatUnits(freed, 6));
+          log.info(`   💵 Freed ${ethers.formatUnits(freed, 6)} USDC by merging ${chunk.length} condition(s)`);
+        }
+      }
+    } catch (error: any) {
+      if (error instanceof RunLockLostError) throw error;
+      // A merge problem must not block claiming
+      log.error(`   ❌ Merge step failed: ${error.reason || error.message || error}`);
+    }
+  }
+
+  // Transfer call for --sweep-with-claim, planned for the balance once `batch` is claimed
+  // (earlier batches are already mined, so their payouts are part of the on-chain balance)
+  private async batchedSweepCalls(dryRun: boolean, lastBatch: boolean, batch: Position[]): Promise<ClaimCall[]> {
+    this.pendingSweep = undefined;
+    if (!this.sweeper || !this.settings.sweepWithClaim || dryRun || !lastBatch || this.multisig) return [];
+    const expected = batch.reduce((sum, p) => sum + (p.onChain?.expectedPayout ?? 0n), 0n);
+    const plan = await this.sweeper.plan(this.proxyAddress, expected);
+    if (!plan) return [];
+    this.pendingSweep = Number(ethers.formatUnits(plan.amount, 6));
+    return [plan.call];
+  }
+
+  // Move excess USDC from the proxy to the treasury (--sweep-to). Runs after claiming;
+  // in dry-run the expected payouts of this run count as already received.
+  async runSweep(dryRun: boolean, summary: RunSummary) {
+    if (!this.sweeper) return;
+    log.info('\n🏦 Checking USDC sweep...');
+    try {
+      const pending = dryRun ? ethers.parseUnits(summary.payout.toFixed(6), 6) : 0n;
+      const plan = await this.sweeper.plan(this.proxyAddress, pending);
+      if (!plan) {
+        log.info('   ✨ Proxy balance within the sweep threshold; nothing to sweep');
+        return;
+      }
+      
+      const amount = ethers.formatUnits(plan.amount, 6);
+      log.info(`   • Balance ${ethers.formatUnits(plan.balance, 6)} USDC${pending ? ' (incl. this run\'s expected payouts)' : ''} -> sweep ${amount} USDC to ${plan.to}`);
+      if (dryRun) {
+        log.info(`   ✅ [DRY RUN] Would transfer ${amount} USDC to ${plan.to}`);
+        summary.swept = Number(amount);
+        return;
+      }
+      
+      this.checkLock();
+      const result = await this.executeCalls([plan.call], 'sweep');
+      if (result.success) {
+        summary.swept = Number(amount);
+        summary.sweepTxHash = result.txHash;
+        if (result.txHash) summary.transactions++;
+        log.info(`   🏦 Swept ${amount} USDC to ${plan.to}`, { txHash: result.txHash, amount });
+      }
+    } catch (error: any) {
+      if (error instanceof RunLockLostError) throw error;
+      // A sweep problem must not fail the run; the claims already went through
+      log.error(`   ❌ Sweep failed: ${error.reason || error.message || error}`);
+    }
+  }
+
+  // Run one discovery + claim pass. Never throws: failures are reported in the summary
+  // so that, with several accounts, one broken account doesn't abort the others.
+  async run(dryRun: boolean = false): Promise<RunSummary> {
+    return this.scoped(() => this.pass(dryRun, summary => this.discoverAndClaim(summary)));
+  }
+
+  // Claim positions the caller already has (from discover() or plan()), skipping discovery.
+  // Same summary and failure handling as run().
+  async claim(positions: Position[], dryRun: boolean = false): Promise<RunSummary> {
+    return this.scoped(() => this.pass(dryRun, async summary => {
+      this.gas.resetRun();
+      await this.initialize();
+      if (!summary.dryRun && !this.gasless) await this.checkGasBalance();
+      await this.reconcileLedger();
+      summary.positionsFound = positions.length;
+      if (positions.length === 0) {
+        log.info('\n✨ No positions to claim');
+        return;
+      }
+      await this.claimPositions(positions, summary);
+    }));
+  }
+
+  // Claim only the given conditions, right after they resolved on chain (`claim --watch`).
+  // Discovery runs as usual; positions and filter reasons of other conditions are left out.
+  async claimConditions(conditionIds: string[], dryRun: boolean = false): Promise<RunSummary> {
+    const targets = new Set(conditionIds.map(id => id.toLowerCase()));
+    return this.scoped(() => this.pass(dryRun, async summary => {
+      this.discovery.resolved = targets;
+      this.gas.resetRun();
+      await this.initialize();
+      if (!summary.dryRun && !this.gasless) await this.checkGasBalance();
+      await this.reconcileLedger();
+      
+      const filtered: FilteredPosition[] = [];
+      const decisions: PolicyDecision[] = [];
+      const positions = (await this.fetchRedeemablePositions(undefined, filtered, decisions))
+        .filter(pos => targets.has(pos.conditionId.toLowerCase()));
+      summary.filtered = filtered.filter(f => targets.has(f.conditionId.toLowerCase()));
+      summary.policy = decisions.filter(d => targets.has(d.position.conditionId.toLowerCase())).map(policyRecord);
+      summary.positionsFound = positions.length;
+      summary.degraded = this.discovery.degraded;
+      if (positions.length === 0) {
+        log.info(`\n✨ Nothing to claim in the ${targets.size} resolved condition(s)`);
+        return;
+      }
+      await this.claimPositions(positions, summary);
+    }));
+  }
+
+  // Whether the last discovery saw shares of this condition in the proxy
+  holds(conditionId: string): boolean {
+    return this.held.has(conditionId.toLowerCase());
+  }
+
+  // Run lock, summary bookkeeping, error capture and the run report around one pass
+  private async pass(dryRun: boolean, work: (summary: RunSummary) => Promise<void>): Promise<RunSummary> {
+    const summary = emptySummary(this.name, this.proxyAddress, dryRun || this.settings.dryRun);
+    this.discovery = { quarantined: [] };
+    
+    let lease: LockLease | undefined;
+    try {
+      // Dry runs send nothing and take no lock
+      if (this.lock && !summary.dryRun) lease = this.lease = await this.lock.acquire(this.lockKey);
+      await work(summary);
+    } catch (error: any) {
+      if (error instanceof RunLockBusyError) {
+        summary.skipped = `run lock ${error.key} ${error.message}`;
+        log.warn(`\n⏭️  Skipping run: ${summary.skipped}`, { lockKey: error.key });
+        summary.finishedAt = new Date().toISOString();
+        log.event('run_report', { report: summary });
+        return summary;
+      }
+      const message: string = error?.shortMessage || error?.message || String(error);
+      log.error(`\n🚨 Fatal error: ${message}`, { error: message });
+      if (error?.stack) log.debug(error.stack);
+      summary.error = message;
+      await this.notifier?.notify({ type: 'fatal_error', account: this.name, error: message });
+    }
+    this.lease = undefined;
+    try {
+      await lease?.release();
+    } catch (error: any) {
+      log.warn(`⚠️  Could not release run lock ${lease!.key}: ${error?.message || error}`);
+    }
+    
+    this.metrics?.inc('claimer_gas_spent_matic_total', { account: this.name }, Number(ethers.formatEther(this.gas.spentWei)));
+    summary.gasSpent = ethers.formatEther(this.gas.spentWei);
+    summary.finishedAt = new Date().toISOString();
+    log.event('run_report', { report: summary });
+    return summary;
+  }
+
+  // Lock key of this account: one run at a time per proxy wallet and chain
+  get lockKey(): string {
+    return `claimer-${this.network.chainId}-${this.proxyAddress.toLowerCase()}`;
+  }
+
+  // Called before every send: once the lock is gone, another run may be sending for this account
+  private checkLock() {
+    if (this.lease?.lost) throw new RunLockLostError(this.lease.key, this.lease.lost);
+  }
+
+  private async discoverAndClaim(summary: RunSummary) {
+    const dryRun = summary.dryRun;
+    this.gas.resetRun();
+    await this.initialize();
+    await this.runGasTopUp(dryRun);
+    if (!dryRun && !this.gasless) await this.checkGasBalance();
+    await this.processProposals(dryRun);
+    await this.reconcileLedger();
+    
+    let prefetched: Position[] | undefined;
+    if (this.settings.merge) {
+      try {
+        prefetched = await this.discoverPositions();
+      } catch (error: any) {
+        // Skip the merges; fetchRedeemablePositions() tries discovery again for the claims
+        this.markDegraded(`position discovery for merges failed: ${error?.message || error}`);
+      }
+      if (prefetched) await this.runMerges(prefetched, dryRun, summary);
+    }
+    
+    const decisions: PolicyDecision[] = [];
+    const positions = await this.fetchRedeemablePositions(prefetched, summary.filtered, decisions);
+    summary.policy = decisions.map(policyRecord);
+    summary.positionsFound = positions.length;
+    summary.degraded = this.discovery.degraded;
+    
+    if (positions.length === 0) {
+      log.info(summary.degraded ? `\n⚠️  No positions to claim, but discovery was degraded: ${summary.degraded}` : '\n✨ No positions to claim');
+      await this.runSweep(dryRun, summary);
+      return;
+    }
+    await this.claimPositions(positions, summary);
+  }
+
+  // Fill batches condition by condition so a condition is never split across transactions
+  private batch(positions: Position[]): Position[][] {
+    const batches: Position[][] = [];
+    for (const group of groupByCondition(positions)) {
+      const current = batches[batches.length - 1];
+      if (current && current.length + group.length <= this.settings.batchSize) {
+        current.push(...group);
+      } else {
+        batches.push([...group]);
+      }
+    }
+    return batches;
+  }
+
+  // Claim in batches, then sweep; results are added to `summary`
+  private async claimPositions(positions: Position[], summary: RunSummary) {
+    const dryRun = summary.dryRun;
+    const batches = this.batch(positions);
+    const batchSize = this.settings.batchSize;
+    
+    if (dryRun) {
+      log.info(`\n🔍 DRY RUN MODE - Found ${positions.length} claimable positions:`);
+      log.info('=' .repeat(60));
+      
+      let totalValue = 0;
+      for (const position of positions) {
+        totalValue += expectedPayoutUsdc(position);
+      }
+      
+      log.info(`\n📊 Total claimable value: ${totalValue.toFixed(2)} USDC`);
+    } else {
+      log.info(`\n🚀 Starting to claim ${positions.length} positions in ${batches.length} batch(es) (max ${batchSize} per tx)...`);
+    }
+    
+    const txHashes = new Set<string>();
+    
+    for (const [index, batch] of batches.entries()) {
+      // --sweep-with-claim: the last batch also carries the sweep, sized for the balance after all claims
+      const sweepCalls = await this.batchedSweepCalls(dryRun, index === batches.length - 1, batch);
+      const results = await this.claimWithBisection(batch, dryRun, sweepCalls);
+      
+      for (const { position, result } of results) {
+        if (result.swept && sweepCalls.length > 0 && !summary.sweepTxHash) {
+          summary.swept = this.pendingSweep!;
+          summary.sweepTxHash = result.txHash;
+          log.info(`   🏦 Swept ${summary.swept.toFixed(2)} USDC to ${this.sweeper!.destination} in the claim transaction`, { txHash: result.txHash });
+        }
+        if (result.success) {
+          summary.succeeded++;
+          summary.payout += expectedPayoutUsdc(position);
+          if (result.txHash && result.txHash !== 'DRY_RUN') txHashes.add(result.txHash);
+        } else if (result.deferred) {
+          summary.deferred++;
+        } else if (result.proposed) {
+          summary.proposed++;
+        } else {
+          summary.failed++;
+        }
+        summary.claims.push({
+          conditionId: position.conditionId,
+          outcomeIndex: position.outcomeIndex,
+          title: position.title,
+          status: result.success ? 'claimed' : result.deferred ? 'deferred' : result.proposed ? 'proposed' : result.pending ? 'pending' : 'failed',
+          payout: expectedPayoutUsdc(position),
+          txHash: result.txHash,
+          safeTxHash: result.safeTxHash,
+          error: result.error,
+        });
+        if (!dryRun) {
+          this.recordClaimMetrics(position, result);
+          await this.notifyClaim(position, result);
+        }
+      }
+      
+      // Small delay between batch transactions (skip in dry run)
+      if (!dryRun && index < batches.length - 1) {
+        await new Promise(resolve => setTimeout(resolve, 2000));
+      }
+    }
+    summary.transactions = txHashes.size;
+    if (!summary.sweepTxHash) await this.runSweep(dryRun, summary);
+    summary.gasSpent = ethers.formatEther(this.gas.spentWei);
+    
+    log.info('\n📈 Summary:');
+    if (dryRun) {
+      log.info(`   🔍 [DRY RUN] Would claim: ${summary.succeeded} positions in ${batches.length} transaction(s)`);
+      log.info(`   💰 Total value: ${summary.payout.toFixed(2)} USDC`);
+    } else {
+      log.info(`   ✅ Successful: ${summary.succeeded}`);
+      log.info(`   ❌ Failed: ${summary.failed}`);
+      log.info(`   📊 Total: ${positions.length}`);
+      log.info(`   ⏸️  Deferred: ${summary.deferred}`);
+      if (summary.proposed) log.info(`   🗳️  Proposed (awaiting Safe confirmations): ${summary.proposed}`);
+      log.info(`   🧾 Transactions: ${summary.transactions}`);
+      log.info(`   ⛽ Gas spent: ${summary.gasSpent} MATIC`);
+    }
+    if (summary.degraded) {
+      log.info(`   ⚠️  Degraded: ${summary.degraded}`);
+    }
+    if (summary.swept) {
+      log.info(`   🏦 ${dryRun ? '[DRY RUN] Would sweep' : 'Swept'}: ${summary.swept.toFixed(2)} USDC to ${this.sweeper!.destination}`);
+    }
+  }
+  
+  private recordClaimMetrics(position: Position, result: ClaimResult) {
+    if (result.deferred) return;
+    const labels = { account: this.name };
+    this.metrics?.inc('claimer_claims_attempted_total', labels);
+    if (result.success) {
+      this.metrics?.inc('claimer_claims_succeeded_total', labels);
+      this.metrics?.inc('claimer_usdc_claimed_total', labels, expectedPayoutUsdc(position));
+    } else if (!result.pending) {
+      this.metrics?.inc('claimer_claims_failed_total', labels);
+    }
+  }
+
+  // Startup checks only (`verify` command)
+  async verify(): Promise<VerifyReport> {
+    return this.scoped(() => this.initialize());
+  }
+
+  // Discovery + filtering without claiming (`positions` command)
+  async discover(): Promise<DiscoveryResult> {
+    return this.scoped(async () => {
+      this.discovery = { quarantined: [] };
+      const filtered: FilteredPosition[] = [];
+      const decisions: PolicyDecision[] = [];
+      const positions = await this.fetchRedeemablePositions(undefined, filtered, decisions);
+      return {
+        account: this.name,
+        proxyAddress: this.proxyAddress,
+        positions,
+        filtered,
+        policy: decisions.map(policyRecord),
+        degraded: this.discovery.degraded,
+      };
+    });
+  }
+
+  // discover() plus the batches claim() would send them in
+  async plan(): Promise<ClaimPlan> {
+    const discovery = await this.discover();
+    return {
+      ...discovery,
+      batches: this.batch(discovery.positions),
+      expectedPayout: discovery.positions.reduce((total, position) => total + expectedPayoutUsdc(position), 0),
+    };
+  }
+
+  // Claims submitted but not yet settled in the ledger
+  pendingClaims(): LedgerEntry[] {
+    return this.ledger.pending(this.proxyAddress);
+  }
+
+  private async notifyClaim(position: Position, result: ClaimResult) {
+    if (result.deferred || result.pending) return;
+    if (result.success) {
+      await this.notifier?.notify({
+        type: 'claim_succeeded',
+        account: this.name,
+        title: position.title,
+        outcome: position.outcome,
+        payout: expectedPayoutUsdc(position),
+        txHash: result.txHash,
+        txUrl: result.txHash && this.network.explorerUrl ? `${this.network.explorerUrl}/tx/${result.txHash}` : undefined,
+      });
+    } else {
+      await this.notifier?.notify({
+        type: 'claim_failed',
+        account: this.name,
+        title: position.title,
+        outcome: position.outcome,
+        error: result.error || 'Unknown error',
+      });
+    }
+  }
+
+  // Refill the signer EOA from proxy MATIC, or swapped USDC, when it runs low (--gas-topup)
+  async runGasTopUp(dryRun: boolean) {
+    if (!this.topUp) return;
+    try {
+      const eoa = await this.signer.getAddress();
+      const plan = await this.topUp.plan(eoa, this.proxyAddress, this.network.usdcAddress);
+      if (!plan) return;
+      
+      const parts = [
+        plan.fromProxy > 0n ? `${ethers.formatEther(plan.fromProxy)} MATIC from the proxy` : '',
+        plan.swapUsdc > 0n ? `swap ${ethers.formatUnits(plan.swapUsdc, 6)} USDC for >= ${ethers.formatEther(plan.swapMinOut)} MATIC` : '',
+      ].filter(Boolean).join(' + ');
+      log.info(`\n⛽ EOA gas balance ${ethers.formatEther(plan.eoaBalance)} MATIC is low; top-up: ${parts}`);
+      if (dryRun) {
+        log.info('   ✅ [DRY RUN] Would top up the EOA (nothing sent)');
+        return;
+      }
+      if (plan.eoaBalance === 0n) {
+        log.warn(`   ⚠️  The EOA has no MATIC to pay for the top-up transaction itself; send some to ${eoa} once by hand`);
+        return;
+      }
+      
+      const entry = {
+        eoa,
+        proxyAddress: this.proxyAddress,
+        matic: (plan.fromProxy + plan.swapMinOut).toString(),
+        usdc: plan.swapUsdc.toString(),
+      };
+      // Recorded on submission so a crash mid-wait still counts against the daily caps
+      const onSubmitted = (txHash: string) => this.topUp!.record({ ...entry, status: 'submitted', txHash });
+      this.checkLock();
+      const result = await this.executeCalls(plan.calls, 'gas top-up', onSubmitted);
+      if (result.txHash && !result.pending) {
+        this.topUp.record({ ...entry, status: result.success ? 'confirmed' : 'failed', txHash: result.txHash });
+      }
+    } catch (error: any) {
+      if (error instanceof RunLockLostError) throw error;
+      // Claims can still go through on whatever gas is left
+      log.error(`   ❌ Gas top-up failed: ${error.reason || error.message || error}`);
+    }
+  }
+
+  // Warn (and notify) when the EOA that pays gas is running low
+  async checkGasBalance() {
+    const signerAddress = await this.signer.getAddress();
+    const balance = await this.provider.getBalance(signerAddress);
+    const threshold = ethers.parseEther(this.settings.lowBalanceMatic.toString());
+    if (balance >= threshold) return;
+    
+    log.info(`⚠️  EOA gas balance low: ${ethers.formatEther(balance)} MATIC (threshold ${this.settings.lowBalanceMatic})`);
+    await this.notifier?.notify({
+      type: 'low_balance',
+      account: this.name,
+      address: signerAddress,
+      balance: ethers.formatEther(balance),
+      threshold: this.settings.lowBalanceMatic.toString(),
+    });
+  }
+  
+  async balances(): Promise<Balances> {
+    return this.scoped(() => this.readBalances());
+  }
+
+  private async readBalances(): Promise<Balances> {
+    const usdcInterface = new ethers.Interface([
+      'function balanceOf(address) view returns (uint256)',
+    ]);
+    
+    const usdcContract = new ethers.Contract(
+      this.network.usdcAddress,
+      usdcInterface,
+      this.provider
+    );
+    
+    // Get USDC balance in Safe
+    const balance = await usdcContract.balanceOf(this.proxyAddress);
+    const formattedBalance = ethers.formatUnits(balance, 6);
+    
+    // Get MATIC balance in MetaMask/EOA (pays for gas)
+    const signerAddress = await (await this.loadSigner()).getAddress();
+    const eoaMaticBalance = await this.provider.getBalance(signerAddress);
+    const formattedEoaMatic = ethers.formatEther(eoaMaticBalance);
+    
+    // Get MATIC balance in Safe (informational only)
+    const safeMaticBalance = await this.provider.getBalance(this.proxyAddress);
+    const formattedSafeMatic = ethers.formatEther(safeMaticBalance);
+    
+    log.info(`\n💰 Wallet Balances:`);
+    log.info(`   📱 MetaMask/EOA (${signerAddress.slice(0, 6)}...${signerAddress.slice(-4)}):`);
+    log.info(`      ⛽ MATIC: ${formattedEoaMatic} (pays gas fees)`);
+    log.info(`   🔐 Safe (${this.proxyAddress.slice(0, 6)}...${this.proxyAddress.slice(-4)}):`);
+    log.info(`      💵 USDC: ${formattedBalance}`);
+    log.info(`      ⛽ MATIC: ${formattedSafeMatic} (not needed for claims)`);
+    
+    this.metrics?.set('claimer_eoa_matic_balance', { account: this.name }, Number(formattedEoaMatic));
+    return {
+      account: this.name,
+      eoa: signerAddress,
+      eoaMatic: formattedEoaMatic,
+      proxy: this.proxyAddress,
+      proxyUsdc: formattedBalance,
+      proxyMatic: formattedSafeMatic,
+    };
+  }
+}
@@ -0,0 +1,228 @@
+// ---------- Command Line --------------------------------------------------
+// `simple-claimer [command] [options]`. Every option is declared once below
+// with its type and the commands it applies to; anything else (unknown flags,
+// malformed numbers, options of another command) is a usage error instead of
+// being silently ignored. Without a command, `claim` runs, so existing cron
+// lines keep working.
+
+export type CommandName = 'claim' | 'status' | 'positions' | 'history' | 'balances' | 'verify';
+
+export const COMMANDS: Record<CommandName, string> = {
+  claim: 'Discover and redeem winning positions (default command)',
+  status: 'Show claim ledger state: pending, confirmed and failed claims per account',
+  positions: 'List positions with claimability and the reason each one is filtered',
+  history: 'Show past claim attempts from the ledger',
+  balances: 'Show EOA and proxy wallet balances',
+  verify: 'Run the startup checks only: network, contracts, Safe vs. proxy mode, owners, threshold',
+};
+
+type OptionType = 'boolean' | 'number' | 'string';
+
+interface OptionSpec {
+  name: string;
+  alias?: string;
+  type: OptionType;
+  value?: string;               // placeholder shown in help
+  choices?: string[];
+  min?: number;                 // numbers: smallest accepted value; unset = any positive number
+  description: string;
+  commands?: CommandName[];     // undefined = every command
+}
+
+const LEDGER_COMMANDS: CommandName[] = ['claim', 'status', 'positions', 'history'];
+const CHAIN_COMMANDS: CommandName[] = ['claim', 'positions', 'balances', 'verify'];
+
+const OPTIONS: OptionSpec[] = [
+  // Global
+  { name: '--help', alias: '-h', type: 'boolean', description: 'Show help' },
+  { name: '--json', type: 'boolean', description: 'Machine-readable JSON result on stdout (logs go to stderr)' },
+  { name: '--env-file', type: 'string', value: '<path>', description: '.env file to load' },
+  { name: '--accounts', type: 'string', value: '<path>', description: 'Accounts config file (env ACCOUNTS_CONFIG)' },
+  { name: '--account', type: 'string', value: '<name>', description: 'Only this account from the accounts file' },
+  { name: '--allow-raw-key', type: 'boolean', description: 'Permit a plaintext private key in PK' },
+  { name: '--log-level', type: 'string', value: '<level>', choices: ['debug', 'info', 'warn', 'error'], description: 'Minimum log level (env LOG_LEVEL)' },
+  { name: '--log-format', type: 'string', value: '<format>', choices: ['pretty', 'json'], description: 'Log output format (env LOG_FORMAT)' },
+  { name: '--ledger', type: 'string', value: '<path>', description: 'Claim ledger file (env CLAIM_LEDGER_PATH)', commands: LEDGER_COMMANDS },
+
+  // Network
+  { name: '--network', type: 'string', value: '<name>', choices: ['polygon', 'amoy', 'custom'], description: 'Network profile (env NETWORK, default polygon)' },
+  { name: '--network-config', type: 'string', value: '<path>', description: 'JSON overrides of the network profile (env NETWORK_CONFIG)' },
+  { name: '--fork', type: 'string', value: '<rpc-url>', description: 'Use a local Anvil/Hardhat fork instead of the RPC URLs (env FORK_RPC_URL)', commands: CHAIN_COMMANDS },
+
+  // Discovery
+  { name: '--api-url', type: 'string', value: '<url>', description: 'Polymarket data API base URL (env POLYMARKET_API_URL)', commands: ['claim', 'positions'] },
+  { name: '--source', type: 'string', value: '<source>', choices: ['api', 'chain', 'both'], description: 'Position source (env POSITION_SOURCE)', commands: ['claim', 'positions'] },
+  { name: '--from-block', type: 'number', min: 0, value: '<n>', description: 'First block of the initial chain scan', commands: ['claim', 'positions'] },
+  { name: '--chain-cursor', type: 'string', value: '<path>', description: 'Chain scan checkpoint file', commands: ['claim', 'positions'] },
+  { name: '--policy', type: 'string', value: '<path>', description: 'Claim policy JSON file (env CLAIM_POLICY_PATH)', commands: ['claim', 'positions'] },
+  { name: '--all', type: 'boolean', description: 'Include losing, unresolved and empty positions', commands: ['positions'] },
+
+  // History
+  { name: '--limit', type: 'number', min: 1, value: '<n>', description: 'Show at most n entries (default 50)', commands: ['history'] },
+  { name: '--status', type: 'string', value: '<status>', choices: ['pending', 'confirmed', 'failed'], description: 'Only entries with this status', commands: ['history'] },
+
+  // Claiming
+  { name: '--dry-run', alias: '-d', type: 'boolean', description: 'Simulate and report without sending transactions', commands: ['claim'] },
+  { name: '--loop', type: 'boolean', description: 'Run forever (default every 60 minutes)', commands: ['claim'] },
+  { name: '--interval', type: 'number', value: '<minutes>', description: 'Loop interval; implies --loop (env LOOP_INTERVAL_MINUTES)', commands: ['claim'] },
+  { name: '--watch', type: 'boolean', description: 'Claim right after markets resolve; full run every --interval (env WATCH)', commands: ['claim'] },
+  { name: '--ws-url', type: 'string', value: '<url>', description: 'WebSocket RPC for --watch; without it logs are polled (env WS_RPC_URL)', commands: ['claim'] },
+  { name: '--watch-delay', type: 'number', min: 0, value: '<seconds>', description: 'Wait after a resolution before claiming (default 30)', commands: ['claim'] },
+  { name: '--lock-url', type: 'string', value: '<url>', description: 'Shared run lock: redis://, rediss:// or postgres:// (env RUN_LOCK_URL; default lock files)', commands: ['claim'] },
+  { name: '--no-lock', type: 'boolean', description: 'Take no per-account run lock (env RUN_LOCK=false)', commands: ['claim'] },
+  { name: '--batch-size', type: 'number', min: 1, value: '<n>', description: 'Max positions per transaction (default 20)', commands: ['claim'] },
+  { name: '--max-batch-gas', type: 'number', min: 1, value: '<n>', description: 'Gas ceiling per batch (default 5000000)', commands: ['claim'] },
+  { name: '--neg-risk-merge', type: 'boolean', description: 'Merge neg-risk YES/NO pairs before redeeming', commands: ['claim'] },
+  { name: '--merge', type: 'boolean', description: 'Merge YES/NO pairs of unresolved markets into USDC', commands: ['claim'] },
+  { name: '--max-fee-gwei', type: 'number', value: '<gwei>', description: 'Cap on maxFeePerGas', commands: ['claim'] },
+  { name: '--max-priority-fee-gwei', type: 'number', value: '<gwei>', description: 'Cap on maxPriorityFeePerGas', commands: ['claim'] },
+  { name: '--defer-above-gwei', type: 'number', value: '<gwei>', description: 'Defer claims while the network fee is above this', commands: ['claim'] },
+  { name: '--replace-after-blocks', type: 'number', min: 1, value: '<n>', description: 'Speed up a transaction not mined within n blocks', commands: ['claim'] },
+  { name: '--gas-budget', type: 'number', value: '<matic>', description: 'Max MATIC spent on gas per run', commands: ['claim'] },
+  { name: '--max-gas-fraction', type: 'number', value: '<f>', description: 'Skip claims whose gas cost exceeds f x payout', commands: ['claim'] },
+  { name: '--sweep-to', type: 'string', value: '<address>', description: 'Move excess proxy USDC to this treasury after claiming', commands: ['claim'] },
+  { name: '--sweep-threshold', type: 'number', min: 0, value: '<usdc>', description: 'Sweep only while the proxy holds more than this', commands: ['claim'] },
+  { name: '--sweep-keep', type: 'number', min: 0, value: '<usdc>', description: 'USDC always left in the proxy', commands: ['claim'] },
+  { name: '--sweep-percent', type: 'number', min: 1, value: '<p>', description: 'Percentage of the excess to sweep (default 100)', commands: ['claim'] },
+  { name: '--sweep-with-claim', type: 'boolean', description: 'Put the sweep transfer into the last claim transaction', commands: ['claim'] },
+  { name: '--gas-topup', type: 'boolean', description: 'Refill the signer EOA from proxy funds when it runs low (GAS_TOPUP_* env)', commands: ['claim'] },
+  { name: '--gasless', type: 'boolean', description: 'Proxy wallets: the Polymarket relayer submits and pays for transactions', commands: ['claim'] },
+  { name: '--relayer-url', type: 'string', value: '<url>', description: 'Relayer endpoint for --gasless (env RELAYER_URL)', commands: ['claim'] },
+  { name: '--safe-tx-service', type: 'string', value: '<url>', description: 'Safe Transaction Service for multisig proposals (env SAFE_TX_SERVICE_URL)', commands: ['claim'] },
+  { name: '--notify-digest', type: 'boolean', description: 'One notification per run instead of one per event', commands: ['claim'] },
+  { name: '--low-balance', type: 'number', value: '<matic>', description: 'Low EOA gas balance threshold (default 0.05)', commands: ['claim'] },
+  { name: '--status-port', type: 'number', min: 1, value: '<port>', description: 'Serve /healthz, /status, /metrics in loop mode', commands: ['claim'] },
+  { name: '--report', type: 'string', value: '<path>', description: 'Write the run report JSON to this file', commands: ['claim'] },
+];
+
+export class UsageError extends Error {
+  constructor(message: string, readonly command?: CommandName) {
+    super(message);
+    this.name = 'UsageError';
+  }
+}
+
+export interface ParsedArgs {
+  command: CommandName;
+  explicitCommand: boolean; // false when defaulting to claim
+  flag(name: string): boolean;
+  number(name: string): number | undefined;
+  string(name: string): string | undefined;
+}
+
+function findOption(token: string): OptionSpec | undefined {
+  return OPTIONS.find(option => option.name === token || option.alias === token);
+}
+
+function isCommand(name: string | undefined): name is CommandName {
+  return name !== undefined && Object.prototype.hasOwnProperty.call(COMMANDS, name);
+}
+
+export function parseArgs(argv: string[]): ParsedArgs {
+  let command: CommandName = 'claim';
+  let explicitCommand = false;
+  let rest = argv;
+  if (argv[0] && !argv[0].startsWith('-')) {
+    if (argv[0] === 'help') {
+      // `help [command]` is the same as `[command] --help`
+      explicitCommand = isCommand(argv[1]);
+      if (isCommand(argv[1])) command = argv[1];
+      rest = ['--help'];
+    } else if (isCommand(argv[0])) {
+      command = argv[0];
+      explicitCommand = true;
+      rest = argv.slice(1);
+    } else {
+      throw new UsageError(`Unknown command "${argv[0]}" (expected ${Object.keys(COMMANDS).join(', ')})`);
+    }
+  }
+
+  const values = new Map<string, boolean | number | string>();
+  for (let i = 0; i < rest.length; i++) {
+    const token = rest[i];
+    const eq = token.indexOf('=');
+    const key = token.startsWith('--') && eq !== -1 ? token.slice(0, eq) : token;
+    const option = findOption(key);
+
+    if (!option) {
+      throw new UsageError(token.startsWith('-') ? `Unknown option ${key}` : `Unexpected argument "${token}"`, command);
+    }
+    if (option.commands && !option.commands.includes(command)) {
+      throw new UsageError(`Option ${option.name} is not valid for "${command}" (only ${option.commands.join(', ')})`, command);
+    }
+    if (values.has(option.name)) {
+      throw new UsageError(`Option ${option.name} given more than once`, command);
+    }
+
+    if (option.type === 'boolean') {
+      if (eq !== -1 && key !== token) throw new UsageError(`Option ${option.name} takes no value`, command);
+      values.set(option.name, true);
+      continue;
+    }
+
+    let raw: string | undefined;
+    if (key !== token) {
+      raw = token.slice(eq + 1);
+    } else {
+      raw = rest[i + 1];
+      if (raw === undefined || (raw.startsWith('--') && findOption(raw.split('=')[0]))) {
+        throw new UsageError(`Option ${option.name} needs a value ${option.value || ''}`.trim(), command);
+      }
+      i++;
+    }
+
+    if (option.type === 'number') {
+      const parsed = Number(raw);
+      const inRange = option.min === undefined ? parsed > 0 : parsed >= option.min;
+      if (raw.trim() === '' || !Number.isFinite(parsed) || !inRange) {
+        const expected = option.min === undefined ? 'a positive number' : `a number >= ${option.min}`;
+        throw new UsageError(`Option ${option.name} expects ${expected}, got "${raw}"`, command);
+      }
+      values.set(option.name, parsed);
+    } else {
+      if (option.choices && !option.choices.includes(raw)) {
+        throw new UsageError(`Option ${option.name} must be one of ${option.choices.join(', ')}, got "${raw}"`, command);
+      }
+      values.set(option.name, raw);
+    }
+  }
+
+  const typed = <T>(name: string, type: OptionType): T | undefined => {
+    const option = findOption(name);
+    if (!option || option.type !== type) throw new Error(`Undeclared ${type} option ${name}`); // programming error
+    return values.get(name) as T | undefined;
+  };
+  return {
+    command,
+    explicitCommand,
+    flag: name => typed<boolean>(name, 'boolean') === true,
+    number: name => typed<number>(name, 'number'),
+    string: name => typed<string>(name, 'string'),
+  };
+}
+
+export function helpText(command?: CommandName): string {
+  const lines: string[] = [];
+  const describe = (options: OptionSpec[]) => {
+    const labels = options.map(o => `${o.alias ? `${o.alias}, ` : ''}${o.name}${o.value ? ` ${o.value}` : ''}`);
+    const width = Math.max(...labels.map(label => label.length)) + 2;
+    options.forEach((option, i) => {
+      const choices = option.choices ? ` [${option.choices.join('|')}]` : '';
+      lines.push(`  ${labels[i].padEnd(width)}${option.description}${choices}`);
+    });
+  };
+
+  if (!command) {
+    lines.push('Usage: simple-claimer [command] [options]', '', 'Commands:');
+    const width = Math.max(...Object.keys(COMMANDS).map(name => name.length)) + 2;
+    for (const [name, summary] of Object.entries(COMMANDS)) lines.push(`  ${name.padEnd(width)}${summary}`);
+    lines.push('', 'Global options:');
+    describe(OPTIONS.filter(o => !o.commands));
+    lines.push('', 'Run `simple-claimer <command> --help` for the options of a command.');
+    return lines.join('\n');
+  }
+
+  lines.push(`Usage: simple-claimer ${command} [options]`, '', COMMANDS[command], '', 'Options:');
+  describe(OPTIONS.filter(o => !o.commands || o.commands.includes(command)));
+  return lines.join('\n');
+}
@@ -0,0 +1,141 @@
+import { ethers } from 'ethers';
+import fs from 'fs';
+import path from 'path';
+import { ClaimPolicy } from '../services/policy-engine';
+import { loadClaimPolicy, parseClaimPolicy } from './claim-policy';
+import { SIGNER_BACKENDS, SignerConfig } from './signer';
+
+// ---------- Multi-account Configuration ----------------------------------
+// A JSON file listing every proxy wallet one process should claim for:
+//
+// {
+//   "accounts": [
+//     {
+//       "name": "alice",
+//       "signer": { "type": "keystore", "path": "/secrets/alice.json", "passwordFile": "/secrets/alice.pw" },
+//       "proxyAddress": "0x...",
+//       "rpcUrl": "https://polygon-rpc.com",  // optional, defaults to RPC_URL
+//       "policy": { "batchSize": 10, "source": "both", "dryRun": true },
+//       "claimPolicy": "policies/alice.json"   // optional, or an inline object (see claim-policy.ts)
+//     }
+//   ]
+// }
+//
+// "signer" is one of
+//   { "type": "keystore", "path": "...", "passwordFile": "..." | "passwordEnv": "ENV_VAR" }
+//   { "type": "remote", "url": "http://...", "address": "0x...", "authorizationEnv": "ENV_VAR" }
+//   { "type": "raw", "privateKeyEnv": "PK_ALICE" }   (needs --allow-raw-key)
+// The legacy "privateKeyEnv": "PK_ALICE" field is shorthand for the raw signer.
+
+export type PositionSource = 'api' | 'chain' | 'both';
+
+export const POSITION_SOURCES: PositionSource[] = ['api', 'chain', 'both'];
+
+// Per-account overrides of the global CLI/env settings
+export interface AccountPolicy {
+  enabled?: boolean;     // false skips the account entirely
+  dryRun?: boolean;      // force dry-run for this account
+  batchSize?: number;
+  maxBatchGas?: number;
+  source?: PositionSource;
+  fromBlock?: number;
+  sweepTo?: string;      // treasury for the USDC sweep; must still be in SWEEP_ALLOWED_DESTINATIONS
+}
+
+export interface AccountConfig {
+  name: string;
+  signer: SignerConfig;
+  proxyAddress: string;
+  rpcUrl?: string;
+  policy?: AccountPolicy;
+  claimPolicy?: ClaimPolicy; // replaces the global --policy for this account
+}
+
+function fail(filePath: string, message: string): never {
+  throw new Error(`Invalid accounts config ${filePath}: ${message}`);
+}
+
+function parseSigner(filePath: string, where: string, raw: any): SignerConfig {
+  const signer = raw.signer;
+  if (signer === undefined) {
+    if (typeof raw.privateKeyEnv !== 'string' || !raw.privateKeyEnv) fail(filePath, `${where} needs a "signer" (or legacy "privateKeyEnv")`);
+    return { type: 'raw', privateKeyEnv: raw.privateKeyEnv };
+  }
+
+  const isString = (value: unknown) => typeof value === 'string' && value.length > 0;
+  const optional = (key: string) => {
+    if (signer[key] !== undefined && !isString(signer[key])) fail(filePath, `${where}.signer.${key} must be a string`);
+    return signer[key] as string | undefined;
+  };
+  switch (signer?.type) {
+    case 'keystore':
+      if (!isString(signer.path)) fail(filePath, `${where}.signer.path is required`);
+      return { type: 'keystore', path: signer.path, passwordFile: optional('passwordFile'), passwordEnv: optional('passwordEnv') };
+    case 'remote':
+      if (!isString(signer.url)) fail(filePath, `${where}.signer.url is required`);
+      return { type: 'remote', url: signer.url, address: optional('address'), authorizationEnv: optional('authorizationEnv') };
+    case 'raw':
+      if (!isString(signer.privateKeyEnv)) fail(filePath, `${where}.signer.privateKeyEnv is required`);
+      return { type: 'raw', privateKeyEnv: signer.privateKeyEnv };
+    default:
+      fail(filePath, `${where}.signer.type must be one of ${SIGNER_BACKENDS.join(', ')}`);
+  }
+}
+
+export function loadAccountsConfig(filePath: string): AccountConfig[] {
+  if (!fs.existsSync(filePath)) {
+    throw new Error(`Accounts config not found: ${filePath}`);
+  }
+
+  let parsed: any;
+  try {
+    parsed = JSON.parse(fs.readFileSync(filePath, 'utf8'));
+  } catch (error: any) {
+    fail(filePath, error.message);
+  }
+
+  if (!Array.isArray(parsed?.accounts) || parsed.accounts.length === 0) {
+    fail(filePath, '"accounts" must be a non-empty array');
+  }
+
+  const names = new Set<string>();
+  return parsed.accounts.map((raw: any, i: number): AccountConfig => {
+    const where = `accounts[${i}]`;
+    if (typeof raw?.name !== 'string' || !raw.name) fail(filePath, `${where}.name is required`);
+    if (names.has(raw.name)) fail(filePath, `duplicate account name "${raw.name}"`);
+    names.add(raw.name);
+    const signer = parseSigner(filePath, where, raw);
+    if (!ethers.isAddress(raw.proxyAddress)) fail(filePath, `${where}.proxyAddress is not a valid address`);
+    if (raw.rpcUrl !== undefined && typeof raw.rpcUrl !== 'string') fail(filePath, `${where}.rpcUrl must be a string`);
+
+    const policy: AccountPolicy = raw.policy || {};
+    if (policy.source !== undefined && !POSITION_SOURCES.includes(policy.source)) {
+      fail(filePath, `${where}.policy.source must be one of ${POSITION_SOURCES.join(', ')}`);
+    }
+    if (policy.sweepTo !== undefined && !ethers.isAddress(policy.sweepTo)) {
+      fail(filePath, `${where}.policy.sweepTo is not a valid address`);
+    }
+    for (const key of ['batchSize', 'maxBatchGas', 'fromBlock'] as const) {
+      const value = policy[key];
+      if (value !== undefined && (typeof value !== 'number' || !(value >= 0))) {
+        fail(filePath, `${where}.policy.${key} must be a non-negative number`);
+      }
+    }
+
+    let claimPolicy: ClaimPolicy | undefined;
+    if (typeof raw.claimPolicy === 'string') {
+      claimPolicy = loadClaimPolicy(raw.claimPolicy, path.dirname(filePath));
+    } else if (raw.claimPolicy !== undefined) {
+      claimPolicy = parseClaimPolicy(raw.claimPolicy, `${filePath} ${where}.claimPolicy`);
+    }
+
+    return {
+      name: raw.name,
+      signer,
+      proxyAddress: raw.proxyAddress,
+      rpcUrl: raw.rpcUrl,
+      policy,
+      claimPolicy,
+    };
+  });
+}
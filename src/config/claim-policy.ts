@@ -0,0 +1,92 @@
+import fs from 'fs';
+import path from 'path';
+import { ClaimPolicy, MarketFilter, PolicyRules } from '../services/policy-engine';
+
+// ---------- Claim Policy Configuration -------------------------------------
+// A JSON file (--policy <path> / CLAIM_POLICY_PATH), or a "claimPolicy" entry
+// of an account in the accounts file (inline object or path to such a file):
+//
+// {
+//   "minPayoutUsdc": 1,
+//   "maxClaimsPerRun": 25,
+//   "maxAgeHours": 48,
+//   "include": { "eventSlugs": ["nba-*", "nfl-*"] },
+//   "exclude": { "conditionIds": ["0xabc..."], "slugs": ["*-test-*"] },
+//   "negRisk": { "minPayoutUsdc": 5 }             // or { "enabled": false }
+// }
+//
+// Semantics of every rule are described in src/services/policy-engine.ts.
+
+const FILTER_KEYS = ['conditionIds', 'eventSlugs', 'slugs'] as const;
+const NUMBER_KEYS = ['minPayoutUsdc', 'minAgeHours', 'maxAgeHours'] as const;
+const RULE_KEYS = ['include', 'exclude', ...NUMBER_KEYS];
+
+function fail(source: string, message: string): never {
+  throw new Error(`Invalid claim policy ${source}: ${message}`);
+}
+
+function parseFilter(source: string, where: string, raw: any): MarketFilter {
+  if (typeof raw !== 'object' || raw === null || Array.isArray(raw)) fail(source, `${where} must be an object`);
+  const filter: MarketFilter = {};
+  for (const key of Object.keys(raw)) {
+    if (!(FILTER_KEYS as readonly string[]).includes(key)) fail(source, `unknown key ${where}.${key} (expected ${FILTER_KEYS.join(', ')})`);
+    const list = raw[key];
+    if (!Array.isArray(list) || list.some(item => typeof item !== 'string' || !item)) {
+      fail(source, `${where}.${key} must be an array of strings`);
+    }
+    filter[key as typeof FILTER_KEYS[number]] = list;
+  }
+  return filter;
+}
+
+function parseRules(source: string, where: string, raw: any, extraKeys: string[]): PolicyRules {
+  for (const key of Object.keys(raw)) {
+    if (!RULE_KEYS.includes(key) && !extraKeys.includes(key)) fail(source, `unknown key ${where}${key}`);
+  }
+  const rules: PolicyRules = {};
+  if (raw.include !== undefined) rules.include = parseFilter(source, `${where}include`, raw.include);
+  if (raw.exclude !== undefined) rules.exclude = parseFilter(source, `${where}exclude`, raw.exclude);
+  for (const key of NUMBER_KEYS) {
+    const value = raw[key];
+    if (value === undefined) continue;
+    if (typeof value !== 'number' || !(value >= 0)) fail(source, `${where}${key} must be a non-negative number`);
+    rules[key] = value;
+  }
+  if (rules.minAgeHours !== undefined && rules.maxAgeHours !== undefined && rules.minAgeHours > rules.maxAgeHours) {
+    fail(source, `${where}minAgeHours is greater than ${where}maxAgeHours`);
+  }
+  return rules;
+}
+
+// `source` names the policy in error messages (file path or accounts file location)
+export function parseClaimPolicy(raw: any, source: string): ClaimPolicy {
+  if (typeof raw !== 'object' || raw === null || Array.isArray(raw)) fail(source, 'must be a JSON object');
+  const policy: ClaimPolicy = parseRules(source, '', raw, ['maxClaimsPerRun', 'negRisk']);
+
+  if (raw.maxClaimsPerRun !== undefined) {
+    if (!Number.isInteger(raw.maxClaimsPerRun) || raw.maxClaimsPerRun < 1) fail(source, 'maxClaimsPerRun must be a positive integer');
+    policy.maxClaimsPerRun = raw.maxClaimsPerRun;
+  }
+  if (raw.negRisk !== undefined) {
+    if (typeof raw.negRisk !== 'object' || raw.negRisk === null) fail(source, 'negRisk must be an object');
+    if (raw.negRisk.enabled !== undefined && typeof raw.negRisk.enabled !== 'boolean') fail(source, 'negRisk.enabled must be true or false');
+    policy.negRisk = { ...parseRules(source, 'negRisk.', raw.negRisk, ['enabled']), enabled: raw.negRisk.enabled };
+    if (policy.negRisk.enabled === undefined) delete policy.negRisk.enabled;
+  }
+  return policy;
+}
+
+// Relative paths are resolved against `baseDir` (the accounts file's directory for per-account policies)
+export function loadClaimPolicy(filePath: string, baseDir = process.cwd()): ClaimPolicy {
+  const resolved = path.resolve(baseDir, filePath);
+  if (!fs.existsSync(resolved)) {
+    throw new Error(`Claim policy not found: ${resolved}`);
+  }
+  let raw: any;
+  try {
+    raw = JSON.parse(fs.readFileSync(resolved, 'utf8'));
+  } catch (error: any) {
+    fail(resolved, error.message);
+  }
+  return parseClaimPolicy(raw, resolved);
+}
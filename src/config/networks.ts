@@ -0,0 +1,138 @@
+import { ethers } from 'ethers';
+import fs from 'fs';
+import path from 'path';
+
+// ---------- Network Profiles ------------------------------------------------
+// --network polygon|amoy|custom (env NETWORK, default polygon) selects the
+// chain and every contract / service address the claimer talks to. A JSON file
+// (--network-config <path> / NETWORK_CONFIG) overrides single keys of the
+// selected profile, using the NetworkProfile key names:
+//
+// { "chainId": 137, "ctfAddress": "0x...", "polymarketApi": "http://127.0.0.1:8080" }
+//
+// `custom` starts empty: the file must define chainId and the required
+// addresses (see REQUIRED_KEYS). Optional entries are only needed by the
+// features that use them (neg-risk markets, proxy wallets, gasless relaying,
+// multisig proposals, the data API as position source).
+
+export const NETWORK_NAMES = ['polygon', 'amoy', 'custom'] as const;
+export type NetworkName = typeof NETWORK_NAMES[number];
+
+export interface NetworkProfile {
+  name: NetworkName;
+  label: string;
+  chainId: number;
+  ctfAddress: string;
+  usdcAddress: string;                       // collateral (USDC.e on Polygon)
+  wrappedNativeAddress: string;              // WMATIC / WPOL, for gas top-up swaps
+  negRiskAdapterAddress?: string;
+  negRiskWrappedCollateralAddress?: string;  // collateral the NegRiskAdapter splits positions from
+  proxyWalletFactoryAddress?: string;        // Polymarket proxy wallets
+  polymarketApi?: string;                    // data API base URL
+  explorerUrl?: string;
+  safeTxServiceUrl?: string;
+  relayerUrl?: string;
+  relayHubAddress?: string;
+  maticUsdFeedAddress?: string;              // Chainlink MATIC/USD feed for the gas-vs-payout check
+}
+
+export const NETWORK_PROFILES: Record<Exclude<NetworkName, 'custom'>, NetworkProfile> = {
+  polygon: {
+    name: 'polygon',
+    label: 'Polygon Mainnet',
+    chainId: 137,
+    ctfAddress: '0x4D97DCd97eC945f40cF65F87097ACe5EA0476045',
+    usdcAddress: '0x2791Bca1f2de4661ED88A30C99A7a9449Aa84174',
+    wrappedNativeAddress: '0x0d500B1d8E8eF31E21C99d1Db9A6444d3ADf1270',
+    negRiskAdapterAddress: '0xd91E80cF2E7be2e162c6513ceD06f1dD0dA35296',
+    negRiskWrappedCollateralAddress: '0x3A3BD7bb9528E159577F7C2e685CC81A765002E2',
+    proxyWalletFactoryAddress: '0xaB45c5A4B0c941a2F231C04C3f49182e1A254052',
+    polymarketApi: 'https://data-api.polymarket.com',
+    explorerUrl: 'https://polygonscan.com',
+    safeTxServiceUrl: 'https://safe-transaction-polygon.safe.global',
+    relayerUrl: 'https://relayer-v2.polymarket.com',
+    relayHubAddress: '0xD216153c06E857cD7f72665E0aF1d7D82172F494',
+    maticUsdFeedAddress: '0xAB594600376Ec9fD91F8e885dADF0CE036862dE0',
+  },
+  // Polymarket's CTF and collateral on Amoy. There is no public data API, proxy
+  // factory or relayer for it: use --source chain, and a Safe (or a network config).
+  amoy: {
+    name: 'amoy',
+    label: 'Polygon Amoy Testnet',
+    chainId: 80002,
+    ctfAddress: '0x69308FB512518e39F9b16112fA8d994F4e2Bf8bB',
+    usdcAddress: '0x9c4E1703476E875070EE25b56A58B008CFb8FA78',
+    wrappedNativeAddress: '0x360ad4f9a9A8EFe9A8DCB5f461c4Cc1047E1Dcf9',
+    explorerUrl: 'https://amoy.polygonscan.com',
+  },
+};
+
+const ADDRESS_KEYS = [
+  'ctfAddress', 'usdcAddress', 'wrappedNativeAddress', 'negRiskAdapterAddress',
+  'negRiskWrappedCollateralAddress', 'proxyWalletFactoryAddress', 'relayHubAddress', 'maticUsdFeedAddress',
+] as const;
+const URL_KEYS = ['polymarketApi', 'explorerUrl', 'safeTxServiceUrl', 'relayerUrl'] as const;
+const REQUIRED_KEYS = ['chainId', 'ctfAddress', 'usdcAddress', 'wrappedNativeAddress'] as const;
+
+function fail(source: string, message: string): never {
+  throw new Error(`Invalid network config ${source}: ${message}`);
+}
+
+// Apply the keys of `raw` (parsed network config file) on top of `base`
+export function applyNetworkOverrides(base: Partial<NetworkProfile>, raw: any, source: string): Partial<NetworkProfile> {
+  if (typeof raw !== 'object' || raw === null || Array.isArray(raw)) fail(source, 'must be a JSON object');
+  const profile: Partial<NetworkProfile> = { ...base };
+  for (const [key, value] of Object.entries(raw)) {
+    if (key === 'chainId') {
+      if (!Number.isInteger(value) || (value as number) <= 0) fail(source, 'chainId must be a positive integer');
+      profile.chainId = value as number;
+    } else if (key === 'label') {
+      if (typeof value !== 'string') fail(source, 'label must be a string');
+      profile.label = value;
+    } else if ((ADDRESS_KEYS as readonly string[]).includes(key)) {
+      if (typeof value !== 'string' || !ethers.isAddress(value)) fail(source, `${key} must be an address`);
+      profile[key as typeof ADDRESS_KEYS[number]] = value;
+    } else if ((URL_KEYS as readonly string[]).includes(key)) {
+      if (typeof value !== 'string' || !/^https?:\/\//.test(value)) fail(source, `${key} must be an http(s) URL`);
+      profile[key as typeof URL_KEYS[number]] = value;
+    } else {
+      fail(source, `unknown key ${key} (expected chainId, label, ${[...ADDRESS_KEYS, ...URL_KEYS].join(', ')})`);
+    }
+  }
+  return profile;
+}
+
+// Relative config paths are resolved against `baseDir`
+export function loadNetworkProfile(name: string, configPath?: string, baseDir = process.cwd()): NetworkProfile {
+  if (!(NETWORK_NAMES as readonly string[]).includes(name)) {
+    throw new Error(`Unknown network "${name}" (expected ${NETWORK_NAMES.join(', ')})`);
+  }
+  let profile: Partial<NetworkProfile> = name === 'custom'
+    ? { name: 'custom', label: 'Custom network' }
+    : NETWORK_PROFILES[name as Exclude<NetworkName, 'custom'>];
+
+  if (configPath) {
+    const resolved = path.resolve(baseDir, configPath);
+    if (!fs.existsSync(resolved)) throw new Error(`Network config not found: ${resolved}`);
+    let raw: any;
+    try {
+      raw = JSON.parse(fs.readFileSync(resolved, 'utf8'));
+    } catch (error: any) {
+      fail(resolved, error.message);
+    }
+    profile = applyNetworkOverrides(profile, raw, resolved);
+  }
+
+  const missing = REQUIRED_KEYS.filter(key => profile[key] === undefined);
+  if (missing.length > 0) {
+    throw new Error(`Network "${name}" needs ${missing.join(', ')} (set them in --network-config / NETWORK_CONFIG)`);
+  }
+  return profile as NetworkProfile;
+}
+
+// Address of an optional contract, or a readable error naming the missing config key
+export function requireNetworkAddress(profile: NetworkProfile, key: 'negRiskAdapterAddress' | 'negRiskWrappedCollateralAddress' | 'proxyWalletFactoryAddress' | 'relayHubAddress'): string {
+  const value = profile[key];
+  if (!value) throw new Error(`${key} is not known for network ${profile.name}; set it in --network-config / NETWORK_CONFIG`);
+  return value;
+}
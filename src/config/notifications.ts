@@ -0,0 +1,56 @@
+import { NOTIFICATION_EVENT_TYPES, NotificationEventType, NotificationSink } from '../services/notifier';
+import { DiscordSink, SlackSink, SmtpSink, TelegramSink, WebhookSink } from '../services/notify-sinks';
+
+// ---------- Notification Configuration -------------------------------------
+// Sinks are enabled by their environment variables:
+//
+//   NOTIFY_WEBHOOK_URL                                  generic JSON webhook
+//   NOTIFY_TELEGRAM_BOT_TOKEN + NOTIFY_TELEGRAM_CHAT_ID Telegram bot
+//   NOTIFY_DISCORD_WEBHOOK_URL                          Discord webhook
+//   NOTIFY_SLACK_WEBHOOK_URL                            Slack incoming webhook
+//   NOTIFY_SMTP_URL + NOTIFY_EMAIL_FROM + NOTIFY_EMAIL_TO  email (smtp:// or smtps://, TO comma-separated)
+//
+// NOTIFY_EVENTS filters events for every sink, NOTIFY_<SINK>_EVENTS for one sink
+// (SINK = WEBHOOK, TELEGRAM, DISCORD, SLACK, EMAIL), e.g.
+//   NOTIFY_EVENTS=claim_succeeded,claim_failed,low_balance,fatal_error
+//   NOTIFY_TELEGRAM_EVENTS=fatal_error,low_balance
+
+export function parseEventList(value: string | undefined, source: string): Set<NotificationEventType> | undefined {
+  if (!value) return undefined;
+  const names = value.split(',').map(name => name.trim()).filter(Boolean);
+  for (const name of names) {
+    if (!NOTIFICATION_EVENT_TYPES.includes(name as NotificationEventType)) {
+      throw new Error(`Invalid ${source}: unknown event "${name}" (expected ${NOTIFICATION_EVENT_TYPES.join(', ')})`);
+    }
+  }
+  return new Set(names as NotificationEventType[]);
+}
+
+export function loadNotificationSinks(env: NodeJS.ProcessEnv): NotificationSink[] {
+  const eventsFor = (sink: string) => parseEventList(env[`NOTIFY_${sink}_EVENTS`], `NOTIFY_${sink}_EVENTS`);
+  const sinks: NotificationSink[] = [];
+
+  if (env.NOTIFY_WEBHOOK_URL) {
+    sinks.push(new WebhookSink(env.NOTIFY_WEBHOOK_URL, eventsFor('WEBHOOK')));
+  }
+  if (env.NOTIFY_TELEGRAM_BOT_TOKEN || env.NOTIFY_TELEGRAM_CHAT_ID) {
+    if (!env.NOTIFY_TELEGRAM_BOT_TOKEN || !env.NOTIFY_TELEGRAM_CHAT_ID) {
+      throw new Error('Telegram notifications need both NOTIFY_TELEGRAM_BOT_TOKEN and NOTIFY_TELEGRAM_CHAT_ID');
+    }
+    sinks.push(new TelegramSink(env.NOTIFY_TELEGRAM_BOT_TOKEN, env.NOTIFY_TELEGRAM_CHAT_ID, eventsFor('TELEGRAM')));
+  }
+  if (env.NOTIFY_DISCORD_WEBHOOK_URL) {
+    sinks.push(new DiscordSink(env.NOTIFY_DISCORD_WEBHOOK_URL, eventsFor('DISCORD')));
+  }
+  if (env.NOTIFY_SLACK_WEBHOOK_URL) {
+    sinks.push(new SlackSink(env.NOTIFY_SLACK_WEBHOOK_URL, eventsFor('SLACK')));
+  }
+  if (env.NOTIFY_SMTP_URL) {
+    const to = (env.NOTIFY_EMAIL_TO || '').split(',').map(address => address.trim()).filter(Boolean);
+    if (!env.NOTIFY_EMAIL_FROM || to.length === 0) {
+      throw new Error('Email notifications need NOTIFY_EMAIL_FROM and NOTIFY_EMAIL_TO');
+    }
+    sinks.push(new SmtpSink(env.NOTIFY_SMTP_URL, env.NOTIFY_EMAIL_FROM, to, eventsFor('EMAIL')));
+  }
+  return sinks;
+}
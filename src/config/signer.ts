@@ -0,0 +1,97 @@
+import { ethers } from 'ethers';
+import fs from 'fs';
+import { RemoteSigner } from '../services/remote-signer';
+
+// ---------- Signer Backends -------------------------------------------------
+// How the EOA that owns the proxy wallet signs:
+//
+//   keystore  encrypted JSON keystore (KEYSTORE_PATH), unlocked with the password
+//             in KEYSTORE_PASSWORD_FILE (preferred) or KEYSTORE_PASSWORD
+//   remote    external signer over JSON-RPC (REMOTE_SIGNER_URL, optional
+//             REMOTE_SIGNER_ADDRESS and REMOTE_SIGNER_AUTH); Web3Signer/Clef-compatible
+//   raw       plaintext private key in PK; only with --allow-raw-key / ALLOW_RAW_PRIVATE_KEY=true
+//
+// SIGNER_BACKEND selects one explicitly; otherwise it is inferred from which
+// variables are set. In an accounts file each account may carry its own
+// "signer" object with the same fields (see loadAccountsConfig).
+
+export type SignerBackend = 'keystore' | 'remote' | 'raw';
+
+export const SIGNER_BACKENDS: SignerBackend[] = ['keystore', 'remote', 'raw'];
+
+export type SignerConfig =
+  | { type: 'keystore'; path: string; passwordFile?: string; passwordEnv?: string }
+  | { type: 'remote'; url: string; address?: string; authorizationEnv?: string }
+  | { type: 'raw'; privateKeyEnv: string };
+
+// Signer settings of the single (non --accounts) account
+export function signerConfigFromEnv(env: NodeJS.ProcessEnv): SignerConfig {
+  const backend = env.SIGNER_BACKEND
+    || (env.KEYSTORE_PATH ? 'keystore' : env.REMOTE_SIGNER_URL ? 'remote' : env.PK ? 'raw' : undefined);
+
+  switch (backend) {
+    case 'keystore':
+      if (!env.KEYSTORE_PATH) throw new Error('SIGNER_BACKEND=keystore needs KEYSTORE_PATH');
+      return { type: 'keystore', path: env.KEYSTORE_PATH, passwordFile: env.KEYSTORE_PASSWORD_FILE, passwordEnv: 'KEYSTORE_PASSWORD' };
+    case 'remote':
+      if (!env.REMOTE_SIGNER_URL) throw new Error('SIGNER_BACKEND=remote needs REMOTE_SIGNER_URL');
+      return { type: 'remote', url: env.REMOTE_SIGNER_URL, address: env.REMOTE_SIGNER_ADDRESS, authorizationEnv: 'REMOTE_SIGNER_AUTH' };
+    case 'raw':
+      return { type: 'raw', privateKeyEnv: 'PK' };
+    case undefined:
+      throw new Error('No signer configured: set KEYSTORE_PATH, REMOTE_SIGNER_URL, or PK with ALLOW_RAW_PRIVATE_KEY=true');
+    default:
+      throw new Error(`Invalid SIGNER_BACKEND "${backend}" (expected ${SIGNER_BACKENDS.join(', ')})`);
+  }
+}
+
+// Checks that need no I/O beyond the environment; run at startup so a broken
+// account is reported before any iteration starts.
+export function validateSignerConfig(config: SignerConfig, env: NodeJS.ProcessEnv, allowRawKey: boolean) {
+  switch (config.type) {
+    case 'keystore':
+      if (!fs.existsSync(config.path)) throw new Error(`Keystore not found: ${config.path}`);
+      if (!config.passwordFile && !(config.passwordEnv && env[config.passwordEnv])) {
+        throw new Error(`Keystore ${config.path} needs a password file or ${config.passwordEnv || 'password env var'}`);
+      }
+      return;
+    case 'remote':
+      new URL(config.url); // throws on malformed URLs
+      if (config.address && !ethers.isAddress(config.address)) throw new Error(`Invalid remote signer address ${config.address}`);
+      return;
+    case 'raw':
+      if (!allowRawKey) {
+        throw new Error(`Plaintext private key in ${config.privateKeyEnv} refused: use a keystore or remote signer, or opt in with --allow-raw-key / ALLOW_RAW_PRIVATE_KEY=true`);
+      }
+      if (!env[config.privateKeyEnv]) throw new Error(`Missing signer key (env ${config.privateKeyEnv})`);
+      return;
+  }
+}
+
+export async function createSigner(config: SignerConfig, env: NodeJS.ProcessEnv, provider: ethers.Provider): Promise<ethers.Signer> {
+  switch (config.type) {
+    case 'keystore': {
+      const password = config.passwordFile
+        ? fs.readFileSync(config.passwordFile, 'utf8').replace(/\r?\n$/, '')
+        : env[config.passwordEnv!] || '';
+      const wallet = await ethers.Wallet.fromEncryptedJson(fs.readFileSync(config.path, 'utf8'), password);
+      return wallet.connect(provider);
+    }
+    case 'remote':
+      return new RemoteSigner({
+        url: config.url,
+        address: config.address,
+        authorization: config.authorizationEnv ? env[config.authorizationEnv] : undefined,
+      }, provider);
+    case 'raw':
+      return new ethers.Wallet(env[config.privateKeyEnv]!, provider);
+  }
+}
+
+export function describeSigner(config: SignerConfig): string {
+  switch (config.type) {
+    case 'keystore': return `keystore ${config.path}`;
+    case 'remote': return `remote signer ${new URL(config.url).host}`;
+    case 'raw': return `raw key from ${config.privateKeyEnv}`;
+  }
+}
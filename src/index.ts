@@ -0,0 +1,41 @@
+// ---------- Library entry ---------------------------------------------------
+// In-process use, e.g. from a trading bot:
+//   const claimer = new SimplePolymarketClaimer({ proxyAddress, signer: wallet, provider });
+//   claimer.on('claimConfirmed', e => ...);
+//   const summary = await claimer.run();
+// Importing this module has no side effects: no .env loading, no argv parsing,
+// no process exit. The CLI (simple-claimer.ts) is a wrapper around the same class.
+
+export {
+  SimplePolymarketClaimer,
+  Balances,
+  ClaimConfirmedEvent,
+  ClaimFailedEvent,
+  ClaimPlan,
+  ClaimRecord,
+  ClaimResult,
+  ClaimSubmittedEvent,
+  ClaimerEvents,
+  ClaimerOptions,
+  DiscoveryResult,
+  FilteredPosition,
+  PolicyRecord,
+  RunSummary,
+  VerifyReport,
+} from './claimer';
+export { NETWORK_PROFILES, NetworkName, NetworkProfile, loadNetworkProfile } from './config/networks';
+export { SignerConfig } from './config/signer';
+export { DataApiOptions } from './services/data-api';
+export { GasOptions } from './services/gas-manager';
+export { PostgresRunLock, RedisRunLock, createRunLock } from './services/lock-backends';
+export { LogFields, LogSink, log } from './services/logger';
+export { MetricsRegistry, createClaimerMetrics } from './services/metrics';
+export { NotificationSink, Notifier, NotifierOptions } from './services/notifier';
+export { ClaimPolicy } from './services/policy-engine';
+export { RelayerOptions } from './services/relayer';
+export { Resolution, ResolutionWatcher, WatchOptions } from './services/resolution-watcher';
+export { FileRunLock, LockLease, RunLock, RunLockBusyError, RunLockLostError, RunLockOptions } from './services/run-lock';
+export { SafeTxService } from './services/safe-tx-service';
+export { SweepOptions } from './services/sweep-planner';
+export { TopUpOptions } from './services/gas-topup';
+export { OnChainState, Position } from './types/position';
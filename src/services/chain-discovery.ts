@@ -0,0 +1,224 @@
+import { ethers } from 'ethers';
+import fs from 'fs';
+import path from 'path';
+import { Position } from '../types/position';
+import { log } from './logger';
+
+// ---------- Chain-only Position Discovery ---------------------------------
+// Builds the set of claimable positions from CTF logs instead of the data API:
+//   1. TransferSingle / TransferBatch logs with `to == proxy` -> token IDs ever received
+//   2. ConditionResolution logs -> for each resolved condition, derive its position
+//      IDs locally (regular USDC collateral and neg-risk wrapped collateral) and
+//      match them against the held token IDs, whichever came first in the scan
+//   3. balanceOfBatch for matched tokens -> positions still held
+// The scan is incremental: the last scanned block, the held token IDs and the
+// token -> condition mapping are checkpointed to a JSON cursor file after every
+// chunk. Resolutions matching no held token are dropped at the end of a scan.
+// Conditions resolved before the first scanned block cannot be matched, so the
+// start block should be at or before the proxy's first trade.
+
+const CTF_DISCOVERY_ABI = [
+  'event TransferSingle(address indexed operator, address indexed from, address indexed to, uint256 id, uint256 value)',
+  'event TransferBatch(address indexed operator, address indexed from, address indexed to, uint256[] ids, uint256[] values)',
+  'event ConditionResolution(bytes32 indexed conditionId, address indexed oracle, bytes32 indexed questionId, uint256 outcomeSlotCount, uint256[] payoutNumerators)',
+  'function balanceOfBatch(address[] owners, uint256[] ids) view returns (uint256[])',
+];
+
+export interface ChainDiscoveryOptions {
+  ctfAddress: string;
+  collateralAddress: string;         // USDC, collateral of regular markets
+  negRiskCollateralAddress?: string; // wrapped collateral used by the NegRiskAdapter (unset: no neg-risk markets)
+  startBlock?: number;               // required for the first scan, ignored once a cursor exists
+  chunkSize: number;                 // blocks per eth_getLogs request
+  cursorPath: string;
+}
+
+interface TokenInfo {
+  conditionId: string;
+  outcomeIndex: number;
+  negativeRisk: boolean;
+  payoutNumerators: string[];
+  oppositeAsset?: string; // the other outcome's token ID for binary markets
+}
+
+interface CursorState {
+  lastScannedBlock: number;
+  heldTokenIds: string[];
+  tokens: Record<string, TokenInfo>;
+}
+
+// alt_bn128 field modulus and curve constant (y^2 = x^3 + 3) of CTHelpers
+const BN128_P = 21888242871839275222246405745257275088696311157297823662689037894645226208583n;
+const BN128_B = 3n;
+
+function modPow(base: bigint, exponent: bigint, modulus: bigint): bigint {
+  let result = 1n;
+  base %= modulus;
+  for (; exponent > 0n; exponent >>= 1n) {
+    if (exponent & 1n) result = result * base % modulus;
+    base = base * base % modulus;
+  }
+  return result;
+}
+
+// CTF getCollectionId(0x0, conditionId, indexSet) without an eth_call: the x coordinate of
+// the curve point hashed from (conditionId, indexSet), with the parity of y in bit 254
+export function rootCollectionId(conditionId: string, indexSet: bigint): string {
+  let x = BigInt(ethers.solidityPackedKeccak256(['bytes32', 'uint256'], [conditionId, indexSet]));
+  const odd = x >> 255n !== 0n;
+  let y: bigint;
+  for (;;) {
+    x = (x + 1n) % BN128_P;
+    const yy = (x * x % BN128_P * x + BN128_B) % BN128_P;
+    y = modPow(yy, (BN128_P + 1n) / 4n, BN128_P); // square root, as P = 3 mod 4
+    if (y * y % BN128_P === yy) break;
+  }
+  if (odd === (y % 2n === 0n)) y = BN128_P - y;
+  if (y % 2n === 1n) x ^= 1n << 254n;
+  return ethers.toBeHex(x, 32);
+}
+
+export class ChainPositionSource {
+  private ctf: ethers.Contract;
+
+  constructor(private readonly provider: ethers.Provider, private readonly options: ChainDiscoveryOptions) {
+    this.ctf = new ethers.Contract(options.ctfAddress, CTF_DISCOVERY_ABI, provider);
+  }
+
+  private loadState(): CursorState | undefined {
+    if (!fs.existsSync(this.options.cursorPath)) return undefined;
+    return JSON.parse(fs.readFileSync(this.options.cursorPath, 'utf8')) as CursorState;
+  }
+
+  private saveState(state: CursorState) {
+    fs.mkdirSync(path.dirname(this.options.cursorPath), { recursive: true });
+    const tmp = `${this.options.cursorPath}.tmp`;
+    fs.writeFileSync(tmp, JSON.stringify(state, null, 2));
+    fs.renameSync(tmp, this.options.cursorPath);
+  }
+
+  async discover(holder: string): Promise<Position[]> {
+    let state = this.loadState();
+    if (!state) {
+      if (this.options.startBlock === undefined) {
+        throw new Error('Chain discovery needs a start block for its first scan (--from-block or CHAIN_SCAN_START_BLOCK)');
+      }
+      state = { lastScannedBlock: this.options.startBlock - 1, heldTokenIds: [], tokens: {} };
+    }
+
+    const latest = await this.provider.getBlockNumber();
+    const held = new Set(state.heldTokenIds);
+    // Positions of every condition resolved in this scan, for tokens received after the resolution
+    const resolved = new Map<string, TokenInfo>();
+
+    if (state.lastScannedBlock < latest) {
+      log.info(`⛓️  Scanning CTF logs from block ${state.lastScannedBlock + 1} to ${latest}...`);
+    }
+
+    for (let from = state.lastScannedBlock + 1; from <= latest; from += this.options.chunkSize) {
+      const to = Math.min(from + this.options.chunkSize - 1, latest);
+
+      const transferFilters = [
+        this.ctf.filters.TransferSingle(null, null, holder),
+        this.ctf.filters.TransferBatch(null, null, holder),
+      ];
+      for (const filter of transferFilters) {
+        for (const event of await this.ctf.queryFilter(filter, from, to)) {
+          const args = (event as ethers.EventLog).args;
+          const ids: bigint[] = args.ids ? [...args.ids] : [args.id];
+          for (const id of ids) held.add(id.toString());
+        }
+      }
+
+      for (const event of await this.ctf.queryFilter(this.ctf.filters.ConditionResolution(), from, to)) {
+        this.indexResolution(event as ethers.EventLog, resolved);
+      }
+
+      // Match held tokens against every resolution of the scan so far
+      for (const id of held) {
+        const position = resolved.get(id);
+        if (position && !state.tokens[id]) state.tokens[id] = position;
+      }
+
+      state.lastScannedBlock = to;
+      state.heldTokenIds = [...held];
+      this.saveState(state);
+    }
+
+    return this.buildPositions(holder, state);
+  }
+
+  private collaterals(): Array<[string, boolean]> {
+    const collaterals: Array<[string, boolean]> = [[this.options.collateralAddress, false]];
+    if (this.options.negRiskCollateralAddress) collaterals.push([this.options.negRiskCollateralAddress, true]);
+    return collaterals;
+  }
+
+  // Derive the position IDs of a resolved condition under each collateral (no RPC calls)
+  private indexResolution(event: ethers.EventLog, resolved: Map<string, TokenInfo>) {
+    const conditionId: string = event.args.conditionId;
+    const outcomeSlotCount = Number(event.args.outcomeSlotCount);
+    const payoutNumerators: string[] = [...event.args.payoutNumerators].map((n: bigint) => n.toString());
+    const collectionIds = Array.from({ length: outcomeSlotCount }, (_, i) => rootCollectionId(conditionId, 1n << BigInt(i)));
+
+    for (const [collateral, negativeRisk] of this.collaterals()) {
+      // CTF getPositionId is keccak256(abi.encodePacked(collateral, collectionId))
+      const ids = collectionIds.map(collectionId => BigInt(ethers.solidityPackedKeccak256(['address', 'bytes32'], [collateral, collectionId])).toString());
+      for (const [outcomeIndex, id] of ids.entries()) {
+        resolved.set(id, {
+          conditionId,
+          outcomeIndex,
+          negativeRisk,
+          payoutNumerators,
+          oppositeAsset: outcomeSlotCount === 2 ? ids[1 - outcomeIndex] : undefined,
+        });
+      }
+    }
+  }
+
+  private async buildPositions(holder: string, state: CursorState): Promise<Position[]> {
+    const tokenIds = Object.keys(state.tokens);
+    if (tokenIds.length === 0) return [];
+
+    const balances: bigint[] = await this.ctf.balanceOfBatch(tokenIds.map(() => holder), tokenIds);
+    const positions: Position[] = [];
+
+    for (const [i, tokenId] of tokenIds.entries()) {
+      if (balances[i] === 0n) continue;
+      const info = state.tokens[tokenId];
+      const total = info.payoutNumerators.reduce((sum, n) => sum + BigInt(n), 0n);
+      const curPrice = total > 0n ? Number(BigInt(info.payoutNumerators[info.outcomeIndex]) * 10_000n / total) / 10_000 : 0;
+      const size = Number(ethers.formatUnits(balances[i], 6));
+
+      positions.push({
+        proxyWallet: holder,
+        asset: tokenId,
+        conditionId: info.conditionId,
+        size,
+        avgPrice: 0,
+        initialValue: 0,
+        currentValue: size * curPrice,
+        cashPnl: 0,
+        percentPnl: 0,
+        totalBought: 0,
+        realizedPnl: 0,
+        percentRealizedPnl: 0,
+        curPrice,
+        redeemable: true,
+        mergeable: false,
+        title: `Condition ${info.conditionId.slice(0, 10)}… (chain)`,
+        slug: '',
+        icon: '',
+        eventSlug: '',
+        outcome: `Outcome ${info.outcomeIndex}`,
+        outcomeIndex: info.outcomeIndex,
+        oppositeOutcome: info.payoutNumerators.length === 2 ? `Outcome ${1 - info.outcomeIndex}` : '',
+        oppositeAsset: info.oppositeAsset || '',
+        endDate: '',
+        negativeRisk: info.negativeRisk,
+      });
+    }
+
+    return positions;
+  }
+}
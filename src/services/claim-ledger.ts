@@ -0,0 +1,152 @@
+import { ethers } from 'ethers';
+import fs from 'fs';
+import path from 'path';
+import { log } from './logger';
+
+// ---------- Claim Ledger -------------------------------------------------
+// Append-only JSON-lines log of every claim attempt, one record per line.
+// Records are keyed by proxy address + conditionId + outcomeIndex; the most
+// recent record for a key is its current state. The file survives restarts,
+// so positions the data API still reports after they were redeemed (or while
+// a redemption is in flight) are skipped instead of claimed twice. A pending
+// record with a safeTxHash but no txHash is a Safe proposal still collecting
+// confirmations; it is settled by the claimer, not by reconcile().
+
+export type ClaimStatus = 'pending' | 'confirmed' | 'failed';
+
+export interface LedgerEntry {
+  proxyAddress: string;
+  conditionId: string;
+  outcomeIndex: number;
+  status: ClaimStatus;
+  title?: string;
+  txHash?: string;
+  blockNumber?: number;
+  gasUsed?: string;        // gas used by the whole (possibly batched) transaction
+  expectedPayout?: number; // USDC expected at submission time
+  payout?: string;         // USDC actually paid out, when known from receipt logs
+  safeTxHash?: string;     // multisig Safes: proposal on the Safe Transaction Service awaiting confirmations
+  safeNonce?: number;      // Safe nonce the proposal was signed with
+  error?: string;
+  timestamp: string;
+}
+
+export interface ReconcileSummary {
+  confirmed: number;
+  failed: number;
+  stillPending: number;
+}
+
+export class ClaimLedger {
+  private entries = new Map<string, LedgerEntry>();
+
+  constructor(private readonly filePath: string) {
+    this.load();
+  }
+
+  static key(proxyAddress: string, conditionId: string, outcomeIndex: number): string {
+    return `${proxyAddress.toLowerCase()}:${conditionId.toLowerCase()}:${outcomeIndex}`;
+  }
+
+  get path(): string {
+    return this.filePath;
+  }
+
+  private load() {
+    for (const entry of this.readRecords(true)) {
+      this.entries.set(ClaimLedger.key(entry.proxyAddress, entry.conditionId, entry.outcomeIndex), entry);
+    }
+  }
+
+  private readRecords(warn: boolean): LedgerEntry[] {
+    if (!fs.existsSync(this.filePath)) return [];
+    const records: LedgerEntry[] = [];
+    const lines = fs.readFileSync(this.filePath, 'utf8').split('\n');
+    for (const [i, line] of lines.entries()) {
+      if (!line.trim()) continue;
+      try {
+        records.push(JSON.parse(line) as LedgerEntry);
+      } catch {
+        // A crash mid-write can leave a truncated last line; skip it rather than refusing to start
+        if (warn) log.warn(`⚠️  Skipping malformed ledger line ${i + 1} in ${this.filePath}`);
+      }
+    }
+    return records;
+  }
+
+  record(entry: Omit<LedgerEntry, 'timestamp'>): LedgerEntry {
+    const full: LedgerEntry = { ...entry, timestamp: new Date().toISOString() };
+    fs.mkdirSync(path.dirname(this.filePath), { recursive: true });
+    fs.appendFileSync(this.filePath, JSON.stringify(full) + '\n');
+    this.entries.set(ClaimLedger.key(full.proxyAddress, full.conditionId, full.outcomeIndex), full);
+    return full;
+  }
+
+  latest(proxyAddress: string, conditionId: string, outcomeIndex: number): LedgerEntry | undefined {
+    return this.entries.get(ClaimLedger.key(proxyAddress, conditionId, outcomeIndex));
+  }
+
+  // Confirmed claims are done; pending ones are in flight. Failed claims are retried.
+  shouldSkip(proxyAddress: string, conditionId: string, outcomeIndex: number): LedgerEntry | undefined {
+    const entry = this.latest(proxyAddress, conditionId, outcomeIndex);
+    return entry && entry.status !== 'failed' ? entry : undefined;
+  }
+
+  pending(proxyAddress?: string): LedgerEntry[] {
+    return [...this.entries.values()].filter(e =>
+      e.status === 'pending' && (!proxyAddress || e.proxyAddress.toLowerCase() === proxyAddress.toLowerCase())
+    );
+  }
+
+  all(): LedgerEntry[] {
+    return [...this.entries.values()];
+  }
+
+  // Every record ever written (not just the latest per key), oldest first
+  history(proxyAddress?: string): LedgerEntry[] {
+    return this.readRecords(false).filter(e => !proxyAddress || e.proxyAddress.toLowerCase() === proxyAddress.toLowerCase());
+  }
+
+  // Resolve pending records left behind by a crashed or interrupted run by
+  // looking up their transaction receipts.
+  async reconcile(provider: ethers.Provider, proxyAddress: string): Promise<ReconcileSummary> {
+    const summary: ReconcileSummary = { confirmed: 0, failed: 0, stillPending: 0 };
+
+    for (const entry of this.pending(proxyAddress)) {
+      if (!entry.txHash && entry.safeTxHash) {
+        summary.stillPending++;
+        continue;
+      }
+      if (!entry.txHash) {
+        // Crashed before the transaction was broadcast
+        this.record({ ...entry, status: 'failed', error: 'Never submitted (no txHash recorded)' });
+        summary.failed++;
+        continue;
+      }
+
+      const receipt = await provider.getTransactionReceipt(entry.txHash);
+      if (receipt) {
+        const ok = receipt.status === 1;
+        this.record({
+          ...entry,
+          status: ok ? 'confirmed' : 'failed',
+          blockNumber: receipt.blockNumber,
+          gasUsed: receipt.gasUsed.toString(),
+          error: ok ? undefined : 'Transaction reverted',
+        });
+        ok ? summary.confirmed++ : summary.failed++;
+        continue;
+      }
+
+      const tx = await provider.getTransaction(entry.txHash);
+      if (tx) {
+        summary.stillPending++;
+      } else {
+        this.record({ ...entry, status: 'failed', error: 'Transaction dropped (not found on chain)' });
+        summary.failed++;
+      }
+    }
+
+    return summary;
+  }
+}
@@ -0,0 +1,200 @@
+import axios, { AxiosInstance } from 'axios';
+import { log } from './logger';
+import { Position } from '../types/position';
+
+// ---------- Polymarket Data API Client -------------------------------------
+// `/positions` of the data API, read page by page (limit + offset) until a
+// short page comes back. Timeouts, 429 and 5xx responses are retried with
+// exponential backoff; a Retry-After header, when present, sets the delay.
+// Every record is validated before it reaches the claimer: records with a
+// malformed conditionId, token ID, outcome index or numeric field are
+// quarantined with the reason instead of being claimed (or crashing a BigInt).
+//
+// A request that still fails after the retries throws DataApiError, so callers
+// can tell "the API failed" apart from "the account has no positions".
+
+export interface DataApiOptions {
+  baseUrl: string;
+  timeoutMs: number;   // per request
+  pageSize: number;    // `limit` of each page (the API caps it at 500)
+  maxPages: number;    // stop (and report truncation) after this many pages
+  maxRetries: number;  // per request, on timeouts / network errors / 429 / 5xx
+  baseDelayMs: number; // first backoff delay, doubled on every retry
+}
+
+export interface QuarantinedRecord {
+  index: number; // position of the record in the combined result
+  conditionId?: string;
+  outcomeIndex?: number;
+  title?: string;
+  reason: string;
+}
+
+export interface PositionsResult {
+  positions: Position[];
+  quarantined: QuarantinedRecord[];
+  pages: number;
+  truncated: boolean; // maxPages was reached with more positions left
+}
+
+export class DataApiError extends Error {
+  constructor(message: string, readonly status?: number) {
+    super(message);
+    this.name = 'DataApiError';
+  }
+}
+
+const MAX_DELAY_MS = 60_000;
+const CONDITION_ID = /^0x[0-9a-fA-F]{64}$/;
+const TOKEN_ID = /^\d+$/; // uint256, decimal
+const NUMBER_FIELDS = ['avgPrice', 'initialValue', 'currentValue', 'cashPnl', 'percentPnl', 'totalBought', 'realizedPnl', 'percentRealizedPnl'] as const;
+const STRING_FIELDS = ['proxyWallet', 'title', 'slug', 'icon', 'eventSlug', 'outcome', 'oppositeOutcome', 'oppositeAsset', 'endDate'] as const;
+const BOOLEAN_FIELDS = ['redeemable', 'mergeable', 'negativeRisk'] as const;
+
+// Numbers may arrive as numeric strings; anything else that isn't a finite number is rejected
+function toNumber(value: unknown): number | undefined {
+  if (typeof value === 'number') return Number.isFinite(value) ? value : undefined;
+  if (typeof value === 'string' && value.trim() !== '') {
+    const parsed = Number(value);
+    return Number.isFinite(parsed) ? parsed : undefined;
+  }
+  return undefined;
+}
+
+// Validate and normalize one `/positions` record
+export function parsePosition(raw: any): { position: Position } | { reason: string } {
+  if (typeof raw !== 'object' || raw === null || Array.isArray(raw)) return { reason: 'not an object' };
+  if (typeof raw.conditionId !== 'string' || !CONDITION_ID.test(raw.conditionId)) {
+    return { reason: `bad conditionId ${JSON.stringify(raw.conditionId)}` };
+  }
+  const asset = typeof raw.asset === 'number' ? String(raw.asset) : raw.asset;
+  if (typeof asset !== 'string' || !TOKEN_ID.test(asset)) return { reason: `bad asset (token ID) ${JSON.stringify(raw.asset)}` };
+  const outcomeIndex = toNumber(raw.outcomeIndex);
+  if (outcomeIndex === undefined || !Number.isInteger(outcomeIndex) || outcomeIndex < 0) {
+    return { reason: `bad outcomeIndex ${JSON.stringify(raw.outcomeIndex)}` };
+  }
+  const size = toNumber(raw.size);
+  if (size === undefined) return { reason: `non-numeric size ${JSON.stringify(raw.size)}` };
+  const curPrice = toNumber(raw.curPrice);
+  if (curPrice === undefined) return { reason: `non-numeric curPrice ${JSON.stringify(raw.curPrice)}` };
+
+  const position: any = { ...raw, conditionId: raw.conditionId, asset, outcomeIndex, size, curPrice };
+  for (const field of NUMBER_FIELDS) {
+    if (raw[field] === undefined || raw[field] === null) {
+      position[field] = 0;
+      continue;
+    }
+    const value = toNumber(raw[field]);
+    if (value === undefined) return { reason: `non-numeric ${field} ${JSON.stringify(raw[field])}` };
+    position[field] = value;
+  }
+  for (const field of STRING_FIELDS) {
+    if (raw[field] === undefined || raw[field] === null) position[field] = '';
+    else if (typeof raw[field] !== 'string') return { reason: `${field} is not a string` };
+  }
+  for (const field of BOOLEAN_FIELDS) {
+    if (raw[field] === undefined || raw[field] === null) position[field] = false;
+    else if (typeof raw[field] !== 'boolean') return { reason: `${field} is not true/false` };
+  }
+  return { position: position as Position };
+}
+
+// Delay requested by a Retry-After header (seconds or HTTP date), in ms
+export function retryAfterMs(header: unknown, now = Date.now()): number | undefined {
+  if (typeof header !== 'string' || !header.trim()) return undefined;
+  const seconds = Number(header);
+  if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000);
+  const date = Date.parse(header);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - now);
+}
+
+function isRetryable(error: any): boolean {
+  const status = error?.response?.status;
+  if (status === undefined) return true; // timeout or network error
+  return status === 429 || status >= 500;
+}
+
+export class DataApiClient {
+  private readonly baseUrl: string;
+
+  // `onRequest` observes every HTTP attempt (duration in seconds, whether it failed);
+  // `http` is the axios instance requests go through
+  constructor(
+    private readonly options: DataApiOptions,
+    private readonly onRequest?: (seconds: number, failed: boolean) => void,
+    private readonly http: AxiosInstance = axios,
+  ) {
+    this.baseUrl = options.baseUrl.replace(/\/+$/, '');
+  }
+
+  async positions(user: string): Promise<PositionsResult> {
+    const result: PositionsResult = { positions: [], quarantined: [], pages: 0, truncated: false };
+    const seen = new Set<string>();
+    let index = 0;
+
+    while (true) {
+      if (result.pages >= this.options.maxPages) {
+        result.truncated = true;
+        break;
+      }
+      const page = await this.get('/positions', {
+        user,
+        limit: this.options.pageSize,
+        offset: result.pages * this.options.pageSize,
+      });
+      if (!Array.isArray(page)) {
+        throw new DataApiError(`/positions returned ${page === null ? 'null' : typeof page} instead of an array`);
+      }
+      result.pages++;
+
+      for (const raw of page) {
+        const parsed = parsePosition(raw);
+        if ('reason' in parsed) {
+          result.quarantined.push({
+            index,
+            conditionId: typeof raw?.conditionId === 'string' ? raw.conditionId : undefined,
+            outcomeIndex: typeof raw?.outcomeIndex === 'number' ? raw.outcomeIndex : undefined,
+            title: typeof raw?.title === 'string' ? raw.title : undefined,
+            reason: parsed.reason,
+          });
+        } else if (!seen.has(parsed.position.asset)) {
+          // Positions shifting between pages while we read can repeat a record
+          seen.add(parsed.position.asset);
+          result.positions.push(parsed.position);
+        }
+        index++;
+      }
+      if (page.length < this.options.pageSize) break;
+    }
+    return result;
+  }
+
+  private async get(route: string, params: Record<string, string | number>): Promise<unknown> {
+    for (let attempt = 0; ; attempt++) {
+      const started = Date.now();
+      try {
+        const response = await this.http.get(`${this.baseUrl}${route}`, {
+          params,
+          timeout: this.options.timeoutMs,
+          headers: {
+            'User-Agent': 'Polymarket-Auto-Claimer/1.0',
+            'Accept': 'application/json',
+          },
+        });
+        this.onRequest?.((Date.now() - started) / 1000, false);
+        return response.data;
+      } catch (error: any) {
+        this.onRequest?.((Date.now() - started) / 1000, true);
+        const status: number | undefined = error?.response?.status;
+        const reason = status ? `HTTP ${status}` : error?.code || error?.message || String(error);
+        if (!isRetryable(error) || attempt >= this.options.maxRetries) {
+          throw new DataApiError(`${route} failed after ${attempt + 1} attempt(s): ${reason}`, status);
+        }
+        const requested = retryAfterMs(error?.response?.headers?.['retry-after']);
+        const delay = Math.min(MAX_DELAY_MS, requested ?? this.options.baseDelayMs * 2 ** attempt);
+        log.warn(`⚠️  Data API ${route} ${reason}; retrying in ${(delay / 1000).toFixed(1)}s (${attempt + 1}/${this.options.maxRetries})`);
+        await new Promise(resolve => setTimeout(resolve, delay));
+      }
+    }
+  }
+}
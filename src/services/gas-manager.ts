@@ -0,0 +1,250 @@
+import { ethers } from 'ethers';
+import { log } from './logger';
+
+// ---------- Gas Strategy ---------------------------------------------------
+// Sends EOA transactions with explicit EIP-1559 fees and nonce, instead of
+// letting ethers pick fees and blocking on tx.wait() forever:
+//   - maxFeePerGas / maxPriorityFeePerGas are capped
+//   - claims are deferred while the network fee is above a ceiling
+//   - a transaction not mined within N blocks is replaced (same nonce, bumped fees)
+//   - nonces are assigned here, not by the node: within a run each transaction
+//     gets the one after the previous, even if the RPC still reports a stale
+//     pending count right after a broadcast (load-balanced endpoints do)
+//   - total MATIC spent per run is limited by a budget
+//   - optional profitability check: gas cost vs. a fraction of the expected payout
+
+export interface GasOptions {
+  maxFeePerGasCap?: bigint;         // wei
+  maxPriorityFeePerGasCap?: bigint; // wei
+  deferAboveGasPrice?: bigint;      // wei; defer claims while network maxFeePerGas is above this
+  replaceAfterBlocks: number;       // blocks to wait before a speed-up replacement
+  maxReplacements: number;          // give up waiting (tx stays pending) after this many replacements
+  bumpPercent: number;              // fee increase per replacement (Polygon requires >= 10%)
+  runBudget?: bigint;               // wei of MATIC the signer may spend per run
+  maxCostFraction?: number;         // skip when gas cost > fraction * expected payout (USD)
+  maticUsdPrice?: number;           // static MATIC/USD price; otherwise read from Chainlink
+  maticUsdFeed?: string;            // Chainlink MATIC/USD feed (8 decimals) of the network, if it has one
+}
+
+export interface Fees {
+  maxFeePerGas: bigint;
+  maxPriorityFeePerGas: bigint;
+}
+
+export interface SendOutcome {
+  hash: string;                          // hash of the last broadcast version
+  receipt?: ethers.TransactionReceipt;   // set once any version was mined
+  pending?: boolean;                     // not mined after all replacements
+}
+
+// Thrown when a transaction is not sent because of fee ceiling or budget
+export class GasDeferredError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'GasDeferredError';
+  }
+}
+
+const POLL_INTERVAL_MS = 2000;
+
+export class GasManager {
+  private spent = 0n;
+  private cachedMaticUsd?: number;
+  private nextNonce?: number; // after the last transaction of this run
+
+  constructor(private readonly provider: ethers.Provider, private readonly options: GasOptions) {}
+
+  // Start a new run: reset the spend budget, price cache and nonce
+  resetRun() {
+    this.spent = 0n;
+    this.cachedMaticUsd = undefined;
+    this.nextNonce = undefined;
+  }
+
+  // Nonce for the next transaction, reserved before the first await so two sends
+  // can never share one: the node's pending count, but never below the nonce
+  // after this run's previous transaction
+  private async reserveNonce(signer: ethers.Signer): Promise<number> {
+    const reserved = this.nextNonce;
+    if (reserved !== undefined) this.nextNonce = reserved + 1;
+    const pending = await signer.getNonce('pending');
+    if (reserved !== undefined && reserved >= pending) return reserved;
+    // First transaction of the run, or sent from elsewhere meanwhile: follow the node
+    this.nextNonce = pending + 1;
+    return pending;
+  }
+
+  // Give back a nonce that was never broadcast, if nothing was reserved after it
+  private releaseNonce(nonce: number) {
+    if (this.nextNonce === nonce + 1) this.nextNonce = nonce;
+  }
+
+  get spentWei(): bigint {
+    return this.spent;
+  }
+
+  async currentFees(): Promise<Fees> {
+    const feeData = await this.provider.getFeeData();
+    let maxFeePerGas = feeData.maxFeePerGas ?? feeData.gasPrice ?? 0n;
+    let maxPriorityFeePerGas = feeData.maxPriorityFeePerGas ?? maxFeePerGas;
+
+    if (this.options.maxFeePerGasCap !== undefined && maxFeePerGas > this.options.maxFeePerGasCap) {
+      maxFeePerGas = this.options.maxFeePerGasCap;
+    }
+    if (this.options.maxPriorityFeePerGasCap !== undefined && maxPriorityFeePerGas > this.options.maxPriorityFeePerGasCap) {
+      maxPriorityFeePerGas = this.options.maxPriorityFeePerGasCap;
+    }
+    if (maxPriorityFeePerGas > maxFeePerGas) maxPriorityFeePerGas = maxFeePerGas;
+    return { maxFeePerGas, maxPriorityFeePerGas };
+  }
+
+  // Reason to defer sending anything right now, if the network fee is above the ceiling
+  async deferReason(): Promise<string | undefined> {
+    if (this.options.deferAboveGasPrice === undefined) return undefined;
+    const feeData = await this.provider.getFeeData();
+    const networkFee = feeData.maxFeePerGas ?? feeData.gasPrice ?? 0n;
+    if (networkFee > this.options.deferAboveGasPrice) {
+      return `network fee ${ethers.formatUnits(networkFee, 'gwei')} gwei above ceiling ${ethers.formatUnits(this.options.deferAboveGasPrice, 'gwei')} gwei`;
+    }
+    return undefined;
+  }
+
+  async maticUsd(): Promise<number | undefined> {
+    if (this.options.maticUsdPrice !== undefined) return this.options.maticUsdPrice;
+    if (this.cachedMaticUsd !== undefined) return this.cachedMaticUsd;
+    if (!this.options.maticUsdFeed) return undefined;
+    try {
+      const feed = new ethers.Contract(this.options.maticUsdFeed, [
+        'function latestRoundData() view returns (uint80, int256 answer, uint256, uint256, uint80)',
+      ], this.provider);
+      const [, answer] = await feed.latestRoundData();
+      this.cachedMaticUsd = Number(answer) / 1e8;
+      return this.cachedMaticUsd;
+    } catch {
+      return undefined;
+    }
+  }
+
+  // Reason to skip a transaction whose gas cost is not worth its payout (or exceeds the budget)
+  async costCheck(gasLimit: bigint, payoutUsdc: number): Promise<string | undefined> {
+    const { maxFeePerGas } = await this.currentFees();
+    const cost = gasLimit * maxFeePerGas;
+
+    if (this.options.runBudget !== undefined && this.spent + cost > this.options.runBudget) {
+      return `gas budget exhausted (spent ${ethers.formatEther(this.spent)} + est. ${ethers.formatEther(cost)} > ${ethers.formatEther(this.options.runBudget)} MATIC)`;
+    }
+
+    if (this.options.maxCostFraction !== undefined) {
+      const price = await this.maticUsd();
+      if (price === undefined) {
+        log.warn(this.options.maticUsdFeed
+          ? '   ⚠️  MATIC/USD price unavailable; skipping gas-vs-payout check'
+          : '   ⚠️  No MATIC/USD feed for this network (set MATIC_USD_PRICE); skipping gas-vs-payout check');
+        return undefined;
+      }
+      const costUsd = Number(ethers.formatEther(cost)) * price;
+      if (costUsd > payoutUsdc * this.options.maxCostFraction) {
+        return `est. gas cost $${costUsd.toFixed(4)} exceeds ${(this.options.maxCostFraction * 100).toFixed(0)}% of payout $${payoutUsdc.toFixed(2)}`;
+      }
+    }
+    return undefined;
+  }
+
+  // Send with explicit nonce and capped fees; replace with bumped fees while not mined.
+  async send(
+    signer: ethers.Signer,
+    request: { to: string; data: string; value?: bigint },
+    onSubmitted?: (txHash: string) => void
+  ): Promise<SendOutcome> {
+    const deferred = await this.deferReason();
+    if (deferred) throw new GasDeferredError(deferred);
+
+    const nonce = await this.reserveNonce(signer);
+    let gasLimit: bigint;
+    let fees: Fees;
+    try {
+      const estimated = await signer.estimateGas({ ...request });
+      gasLimit = (estimated * 120n) / 100n; // 20% headroom
+      fees = await this.currentFees();
+      if (this.options.runBudget !== undefined && this.spent + gasLimit * fees.maxFeePerGas > this.options.runBudget) {
+        throw new GasDeferredError(`gas budget of ${ethers.formatEther(this.options.runBudget)} MATIC would be exceeded`);
+      }
+    } catch (error) {
+      this.releaseNonce(nonce);
+      throw error;
+    }
+
+    const broadcast = async (f: Fees) => {
+      const tx = await signer.sendTransaction({ ...request, nonce, gasLimit, type: 2, ...f });
+      onSubmitted?.(tx.hash);
+      return tx.hash;
+    };
+
+    let hashes: string[];
+    try {
+      hashes = [await broadcast(fees)];
+    } catch (error: any) {
+      // Nonce already used (e.g. by another process sharing the EOA): re-read it next time
+      if (error?.code === 'NONCE_EXPIRED') this.nextNonce = undefined;
+      else this.releaseNonce(nonce);
+      throw error;
+    }
+
+    for (let attempt = 0; ; attempt++) {
+      const deadline = (await this.provider.getBlockNumber()) + this.options.replaceAfterBlocks;
+      const receipt = await this.waitForAny(hashes, deadline);
+      if (receipt) {
+        this.spent += receipt.gasUsed * receipt.gasPrice;
+        return { hash: receipt.hash, receipt };
+      }
+
+      const latest = hashes[hashes.length - 1];
+      if (attempt >= this.options.maxReplacements) {
+        log.info(`   ⏳ Not mined after ${attempt} replacement(s); leaving ${latest} pending`, { txHash: latest, nonce });
+        return { hash: latest, pending: true };
+      }
+
+      const bumped = this.bump(fees);
+      if (!bumped) {
+        log.info(`   ⏳ Fee cap reached, cannot speed up ${latest}; waiting...`);
+        continue;
+      }
+
+      try {
+        log.info(`   🚀 Not mined within ${this.options.replaceAfterBlocks} blocks; replacing nonce ${nonce} at ${ethers.formatUnits(bumped.maxFeePerGas, 'gwei')} gwei`, { txHash: latest, nonce });
+        hashes.push(await broadcast(bumped));
+        fees = bumped;
+      } catch (error: any) {
+        // NONCE_EXPIRED means a previous version was just mined; the next wait picks it up
+        if (error?.code !== 'NONCE_EXPIRED' && error?.code !== 'REPLACEMENT_UNDERPRICED') throw error;
+      }
+    }
+  }
+
+  private bump(fees: Fees): Fees | undefined {
+    const factor = BigInt(100 + this.options.bumpPercent);
+    let maxFeePerGas = (fees.maxFeePerGas * factor) / 100n;
+    let maxPriorityFeePerGas = (fees.maxPriorityFeePerGas * factor) / 100n;
+
+    const cap = this.options.maxFeePerGasCap;
+    if (cap !== undefined && maxFeePerGas > cap) {
+      if (fees.maxFeePerGas >= cap) return undefined;
+      maxFeePerGas = cap;
+    }
+    const priorityCap = this.options.maxPriorityFeePerGasCap;
+    if (priorityCap !== undefined && maxPriorityFeePerGas > priorityCap) maxPriorityFeePerGas = priorityCap;
+    if (maxPriorityFeePerGas > maxFeePerGas) maxPriorityFeePerGas = maxFeePerGas;
+    return { maxFeePerGas, maxPriorityFeePerGas };
+  }
+
+  private async waitForAny(hashes: string[], untilBlock: number): Promise<ethers.TransactionReceipt | null> {
+    for (;;) {
+      for (const hash of hashes) {
+        const receipt = await this.provider.getTransactionReceipt(hash);
+        if (receipt) return receipt;
+      }
+      if ((await this.provider.getBlockNumber()) >= untilBlock) return null;
+      await new Promise(resolve => setTimeout(resolve, POLL_INTERVAL_MS));
+    }
+  }
+}
@@ -0,0 +1,155 @@
+import { ethers } from 'ethers';
+import fs from 'fs';
+import path from 'path';
+import { log } from './logger';
+
+// ---------- EOA Gas Top-up --------------------------------------------------
+// The EOA that signs claims pays their gas. When its MATIC balance drops
+// below `below`, it is refilled up to `target` from the proxy wallet, executed
+// through the proxy like a claim:
+//   1. MATIC held by the proxy itself (a plain value transfer)
+//   2. optionally, a capped amount of claimed USDC swapped to MATIC on a
+//      Uniswap-V2-style router (swapExactTokensForETH, output sent to the EOA)
+// Everything is bounded by rolling 24h caps, persisted in a JSON-lines log so
+// they hold across runs and restarts. The top-up transaction itself is paid
+// by the EOA, so `below` must leave enough for one more transaction.
+
+export interface TopUpOptions {
+  below: bigint;          // wei; top up when the EOA balance is below this
+  target: bigint;         // wei; balance to fill up to
+  dailyMaxMatic: bigint;  // wei moved to the EOA per 24h, proxy MATIC and swaps combined
+  swap?: {
+    router: string;
+    path: string[];       // token path, USDC first, wrapped MATIC last
+    maxUsdc: bigint;      // per top-up, USDC base units
+    dailyMaxUsdc: bigint; // per 24h
+    slippageBps: number;
+  };
+}
+
+export interface TopUpCall {
+  to: string;
+  data: string;
+  value?: bigint;
+}
+
+export interface TopUpPlan {
+  eoaBalance: bigint;
+  fromProxy: bigint;  // wei of proxy MATIC sent to the EOA
+  swapUsdc: bigint;   // USDC swapped
+  swapMinOut: bigint; // minimum MATIC the swap must deliver
+  calls: TopUpCall[];
+}
+
+interface TopUpRecord {
+  eoa: string;
+  proxyAddress: string;
+  matic: string;       // wei credited to the EOA (swap: minimum output)
+  usdc: string;        // USDC base units swapped
+  status: 'submitted' | 'confirmed' | 'failed';
+  txHash?: string;
+  timestamp: string;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const SWAP_DEADLINE_SECONDS = 20 * 60;
+
+const ROUTER_INTERFACE = new ethers.Interface([
+  'function getAmountsOut(uint256 amountIn, address[] path) view returns (uint256[] amounts)',
+  'function swapExactTokensForETH(uint256 amountIn, uint256 amountOutMin, address[] path, address to, uint256 deadline) returns (uint256[] amounts)',
+]);
+const ERC20_INTERFACE = new ethers.Interface([
+  'function balanceOf(address) view returns (uint256)',
+  'function approve(address spender, uint256 amount) returns (bool)',
+]);
+
+export class GasTopUp {
+  constructor(
+    private readonly provider: ethers.Provider,
+    private readonly options: TopUpOptions,
+    private readonly logPath: string,
+  ) {}
+
+  private records(): TopUpRecord[] {
+    if (!fs.existsSync(this.logPath)) return [];
+    const latest = new Map<string, TopUpRecord>();
+    for (const [i, line] of fs.readFileSync(this.logPath, 'utf8').split('\n').entries()) {
+      if (!line.trim()) continue;
+      try {
+        const record = JSON.parse(line) as TopUpRecord;
+        latest.set(record.txHash || `line-${i}`, record);
+      } catch {
+        log.warn(`⚠️  Skipping malformed top-up log line ${i + 1} in ${this.logPath}`);
+      }
+    }
+    return [...latest.values()];
+  }
+
+  // MATIC and USDC moved for this EOA in the last 24h; submitted-but-unsettled top-ups count
+  usedToday(eoa: string, now = Date.now()): { matic: bigint; usdc: bigint } {
+    const used = { matic: 0n, usdc: 0n };
+    for (const record of this.records()) {
+      if (record.status === 'failed' || record.eoa.toLowerCase() !== eoa.toLowerCase()) continue;
+      if (now - new Date(record.timestamp).getTime() > DAY_MS) continue;
+      used.matic += BigInt(record.matic);
+      used.usdc += BigInt(record.usdc);
+    }
+    return used;
+  }
+
+  record(entry: Omit<TopUpRecord, 'timestamp'>) {
+    fs.mkdirSync(path.dirname(this.logPath), { recursive: true });
+    fs.appendFileSync(this.logPath, JSON.stringify({ ...entry, timestamp: new Date().toISOString() }) + '\n');
+  }
+
+  // undefined when the EOA needs nothing or nothing can be moved within the caps
+  async plan(eoa: string, proxyAddress: string, usdcAddress: string): Promise<TopUpPlan | undefined> {
+    const eoaBalance = await this.provider.getBalance(eoa);
+    if (eoaBalance >= this.options.below) return undefined;
+
+    const used = this.usedToday(eoa);
+    const allowance = this.options.dailyMaxMatic - used.matic;
+    let needed = this.options.target - eoaBalance;
+    if (allowance <= 0n) {
+      log.warn(`⚠️  Gas top-up skipped: daily cap of ${ethers.formatEther(this.options.dailyMaxMatic)} MATIC reached`);
+      return undefined;
+    }
+    if (needed > allowance) needed = allowance;
+
+    const plan: TopUpPlan = { eoaBalance, fromProxy: 0n, swapUsdc: 0n, swapMinOut: 0n, calls: [] };
+    const proxyMatic = await this.provider.getBalance(proxyAddress);
+    plan.fromProxy = proxyMatic < needed ? proxyMatic : needed;
+    if (plan.fromProxy > 0n) {
+      plan.calls.push({ to: eoa, data: '0x', value: plan.fromProxy });
+      needed -= plan.fromProxy;
+    }
+
+    const swap = this.options.swap;
+    if (needed > 0n && swap) {
+      const usdcLeftToday = swap.dailyMaxUsdc - used.usdc;
+      const usdc = new ethers.Contract(usdcAddress, ERC20_INTERFACE, this.provider);
+      const router = new ethers.Contract(swap.router, ROUTER_INTERFACE, this.provider);
+      const proxyUsdc: bigint = await usdc.balanceOf(proxyAddress);
+
+      // Price the shortfall with a 1 USDC quote (rounded down, so the output stays within the
+      // MATIC cap), then bound by the per-swap, daily and balance caps
+      const unitOut: bigint = (await router.getAmountsOut(1_000_000n, swap.path)).at(-1);
+      let amountIn = unitOut > 0n ? needed * 1_000_000n / unitOut : 0n;
+      for (const cap of [swap.maxUsdc, usdcLeftToday, proxyUsdc]) {
+        if (amountIn > cap) amountIn = cap;
+      }
+      if (amountIn > 0n) {
+        const quotedOut: bigint = (await router.getAmountsOut(amountIn, swap.path)).at(-1);
+        plan.swapUsdc = amountIn;
+        plan.swapMinOut = quotedOut * BigInt(10_000 - swap.slippageBps) / 10_000n;
+        const deadline = Math.floor(Date.now() / 1000) + SWAP_DEADLINE_SECONDS;
+        plan.calls.push(
+          { to: usdcAddress, data: ERC20_INTERFACE.encodeFunctionData('approve', [swap.router, amountIn]) },
+          { to: swap.router, data: ROUTER_INTERFACE.encodeFunctionData('swapExactTokensForETH', [amountIn, plan.swapMinOut, swap.path, eoa, deadline]) },
+        );
+      }
+    }
+
+    return plan.calls.length > 0 ? plan : undefined;
+  }
+}
@@ -0,0 +1,130 @@
+import { AsyncLocalStorage } from 'async_hooks';
+import crypto from 'crypto';
+
+// ---------- Logging ---------------------------------------------------------
+// Leveled logger with two formats:
+//   pretty - the human-readable emoji output, printed as-is (default)
+//   json   - one JSON object per line: ts, level, msg, runId, iteration,
+//            account plus event fields such as conditionId and txHash
+// Run context (runId, iteration, account) is carried with AsyncLocalStorage,
+// so services log with the right context without passing a logger around.
+// A library caller can route a claimer's lines to its own logger (a LogSink),
+// carried the same way; the sink then decides levels and formatting.
+
+export type LogLevel = 'debug' | 'info' | 'warn' | 'error';
+export type LogFormat = 'pretty' | 'json';
+
+export const LOG_LEVELS: LogLevel[] = ['debug', 'info', 'warn', 'error'];
+export const LOG_FORMATS: LogFormat[] = ['pretty', 'json'];
+
+export interface LogContext {
+  runId?: string;
+  iteration?: number;
+  account?: string;
+}
+
+export type LogFields = Record<string, unknown>;
+
+// Receives log lines instead of stdout (pino, winston and console all fit)
+export interface LogSink {
+  debug(message: string, fields?: LogFields): void;
+  info(message: string, fields?: LogFields): void;
+  warn(message: string, fields?: LogFields): void;
+  error(message: string, fields?: LogFields): void;
+}
+
+// Emoji, variation selectors and zero-width joiners are dropped from JSON messages
+const DECORATION = /[\p{Extended_Pictographic}\u{1F1E6}-\u{1F1FF}\u{FE0F}\u{200D}]/gu;
+
+function toJson(value: unknown): unknown {
+  if (typeof value === 'bigint') return value.toString();
+  if (value instanceof Error) return { name: value.name, message: value.message };
+  if (value instanceof Map) return Object.fromEntries(value);
+  return value;
+}
+
+export function newRunId(): string {
+  return crypto.randomBytes(6).toString('hex');
+}
+
+class Logger {
+  private level: LogLevel = 'info';
+  private format: LogFormat = 'pretty';
+  private stderr = false;
+  private context = new AsyncLocalStorage<LogContext>();
+  private sink = new AsyncLocalStorage<LogSink>();
+
+  // stderr: send every log line to stderr, keeping stdout for command output (--json)
+  configure(options: { level?: LogLevel; format?: LogFormat; stderr?: boolean }) {
+    if (options.level) this.level = options.level;
+    if (options.format) this.format = options.format;
+    if (options.stderr !== undefined) this.stderr = options.stderr;
+  }
+
+  get isJson(): boolean {
+    return this.format === 'json';
+  }
+
+  // Run fn with extra context merged over the current one
+  withContext<T>(context: LogContext, fn: () => T): T {
+    return this.context.run({ ...this.context.getStore(), ...context }, fn);
+  }
+
+  // Run fn with its log lines sent to `sink` (no-op without one)
+  withSink<T>(sink: LogSink | undefined, fn: () => T): T {
+    return sink ? this.sink.run(sink, fn) : fn();
+  }
+
+  currentContext(): LogContext {
+    return { ...this.context.getStore() };
+  }
+
+  debug(message: string, fields?: LogFields) {
+    this.emit('debug', message, fields);
+  }
+
+  info(message: string, fields?: LogFields) {
+    this.emit('info', message, fields);
+  }
+
+  warn(message: string, fields?: LogFields) {
+    this.emit('warn', message, fields);
+  }
+
+  error(message: string, fields?: LogFields) {
+    this.emit('error', message, fields);
+  }
+
+  // Machine-readable event (e.g. the run report); not printed in pretty mode
+  event(message: string, fields: LogFields) {
+    if (this.format === 'json' || this.sink.getStore()) this.emit('info', message, fields);
+  }
+
+  private emit(level: LogLevel, message: string, fields?: LogFields) {
+    const sink = this.sink.getStore();
+    if (sink) {
+      sink[level](message, { ...this.context.getStore(), ...fields });
+      return;
+    }
+    if (LOG_LEVELS.indexOf(level) < LOG_LEVELS.indexOf(this.level)) return;
+
+    if (this.format === 'pretty') {
+      const write = this.stderr || level === 'error' ? console.error : level === 'warn' ? console.warn : console.log;
+      write(message);
+      return;
+    }
+
+    const msg = message.replace(DECORATION, '').replace(/\s+/g, ' ').trim();
+    // Separator lines and blank spacing only make sense for humans
+    if (!fields && !/[a-z0-9]/i.test(msg)) return;
+
+    const record: LogFields = { ts: new Date().toISOString(), level, msg, ...this.context.getStore() };
+    for (const [key, value] of Object.entries(fields || {})) {
+      if (value !== undefined) record[key] = value;
+    }
+    (this.stderr ? process.stderr : process.stdout).write(`${JSON.stringify(record, (_key, value) => toJson(value))}\n`);
+  }
+}
+
+export const log = new Logger();
+
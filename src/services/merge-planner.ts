@@ -0,0 +1,79 @@
+import { ethers } from 'ethers';
+import CTF_ABI from '../contracts/CTF.json';
+import { Position } from '../types/position';
+
+// ---------- YES/NO Merge Planning -----------------------------------------
+// Holding both outcomes of a binary market locks capital until resolution,
+// even though a full YES+NO set is always worth exactly 1 USDC. For every
+// unresolved condition where the proxy holds both outcomes, plan a merge of
+// the overlapping amount back into collateral:
+//   - regular markets: CTF mergePositions(collateral, 0x0, conditionId, [1, 2], amount)
+//   - neg-risk markets: NegRiskAdapter mergePositions(conditionId, amount)
+// Resolved conditions are left to the redemption flow.
+
+export interface MergeCandidate {
+  conditionId: string;
+  title: string;
+  negativeRisk: boolean;
+  yesId: bigint;
+  noId: bigint;
+  amount: bigint; // overlapping YES/NO amount; frees the same amount of USDC (6 decimals)
+}
+
+export class MergePlanner {
+  private ctf: ethers.Contract;
+
+  constructor(provider: ethers.Provider, ctfAddress: string) {
+    this.ctf = new ethers.Contract(ctfAddress, CTF_ABI, provider);
+  }
+
+  async plan(holder: string, positions: Position[]): Promise<MergeCandidate[]> {
+    // One entry per binary condition flagged mergeable by the API, or listed with both outcomes
+    const outcomesByCondition = new Map<string, Set<number>>();
+    for (const position of positions) {
+      const key = position.conditionId.toLowerCase();
+      if (!outcomesByCondition.has(key)) outcomesByCondition.set(key, new Set());
+      outcomesByCondition.get(key)!.add(position.outcomeIndex);
+    }
+    const byCondition = new Map<string, Position>();
+    for (const position of positions) {
+      if (position.outcomeIndex > 1 || !position.oppositeAsset) continue;
+      const key = position.conditionId.toLowerCase();
+      const bothSidesListed = outcomesByCondition.get(key)!.size > 1;
+      if ((position.mergeable || bothSidesListed) && !byCondition.has(key)) {
+        byCondition.set(key, position);
+      }
+    }
+    const targets = [...byCondition.values()];
+    if (targets.length === 0) return [];
+
+    // Read both legs' balances in one call: [yes0, no0, yes1, no1, ...]
+    const ids = targets.flatMap(p => {
+      const asset = BigInt(p.asset);
+      const opposite = BigInt(p.oppositeAsset);
+      return p.outcomeIndex === 0 ? [asset, opposite] : [opposite, asset];
+    });
+    const balances: bigint[] = await this.ctf.balanceOfBatch(ids.map(() => holder), ids);
+
+    const candidates: MergeCandidate[] = [];
+    for (const [i, position] of targets.entries()) {
+      const yes = balances[2 * i];
+      const no = balances[2 * i + 1];
+      const amount = yes < no ? yes : no;
+      if (amount === 0n) continue;
+
+      const denominator: bigint = await this.ctf.payoutDenominator(position.conditionId);
+      if (denominator !== 0n) continue; // resolved: redemption pays out both legs
+
+      candidates.push({
+        conditionId: position.conditionId,
+        title: position.title,
+        negativeRisk: position.negativeRisk,
+        yesId: ids[2 * i],
+        noId: ids[2 * i + 1],
+        amount,
+      });
+    }
+    return candidates;
+  }
+}
@@ -0,0 +1,114 @@
+// ---------- Metrics ---------------------------------------------------------
+// In-process counters, gauges and histograms rendered in the Prometheus text
+// exposition format. Deliberately tiny: one series per (metric, account),
+// no client library.
+
+type Labels = Record<string, string>;
+
+interface MetricDefinition {
+  name: string;
+  help: string;
+  type: 'counter' | 'gauge' | 'histogram';
+}
+
+// Latency/duration buckets in seconds
+const DEFAULT_BUCKETS = [0.1, 0.25, 0.5, 1, 2.5, 5, 10, 30, 60, 120, 300, 600];
+
+function labelKey(labels: Labels): string {
+  return Object.keys(labels).sort().map(key => `${key}="${labels[key].replace(/\\/g, '\\\\').replace(/"/g, '\\"')}"`).join(',');
+}
+
+function series(name: string, key: string, extra?: string): string {
+  const all = [key, extra].filter(Boolean).join(',');
+  return all ? `${name}{${all}}` : name;
+}
+
+class Histogram {
+  readonly counts: number[];
+  sum = 0;
+  count = 0;
+
+  constructor(readonly buckets: number[]) {
+    this.counts = buckets.map(() => 0);
+  }
+
+  observe(value: number) {
+    this.sum += value;
+    this.count++;
+    this.buckets.forEach((bound, i) => {
+      if (value <= bound) this.counts[i]++;
+    });
+  }
+}
+
+export class MetricsRegistry {
+  private definitions = new Map<string, MetricDefinition>();
+  private values = new Map<string, Map<string, number>>();
+  private histograms = new Map<string, Map<string, Histogram>>();
+
+  define(name: string, type: MetricDefinition['type'], help: string) {
+    this.definitions.set(name, { name, type, help });
+  }
+
+  inc(name: string, labels: Labels = {}, amount: number = 1) {
+    const key = labelKey(labels);
+    const metric = this.metric(name);
+    metric.set(key, (metric.get(key) || 0) + amount);
+  }
+
+  set(name: string, labels: Labels, value: number) {
+    this.metric(name).set(labelKey(labels), value);
+  }
+
+  observe(name: string, labels: Labels, value: number) {
+    if (!this.histograms.has(name)) this.histograms.set(name, new Map());
+    const byLabels = this.histograms.get(name)!;
+    const key = labelKey(labels);
+    if (!byLabels.has(key)) byLabels.set(key, new Histogram(DEFAULT_BUCKETS));
+    byLabels.get(key)!.observe(value);
+  }
+
+  render(): string {
+    const lines: string[] = [];
+    for (const definition of this.definitions.values()) {
+      lines.push(`# HELP ${definition.name} ${definition.help}`);
+      lines.push(`# TYPE ${definition.name} ${definition.type}`);
+      if (definition.type === 'histogram') {
+        for (const [key, histogram] of this.histograms.get(definition.name) || []) {
+          histogram.buckets.forEach((bound, i) => {
+            lines.push(`${series(`${definition.name}_bucket`, key, `le="${bound}"`)} ${histogram.counts[i]}`);
+          });
+          lines.push(`${series(`${definition.name}_bucket`, key, 'le="+Inf"')} ${histogram.count}`);
+          lines.push(`${series(`${definition.name}_sum`, key)} ${histogram.sum}`);
+          lines.push(`${series(`${definition.name}_count`, key)} ${histogram.count}`);
+        }
+      } else {
+        for (const [key, value] of this.values.get(definition.name) || []) {
+          lines.push(`${series(definition.name, key)} ${value}`);
+        }
+      }
+    }
+    return `${lines.join('\n')}\n`;
+  }
+
+  private metric(name: string): Map<string, number> {
+    if (!this.values.has(name)) this.values.set(name, new Map());
+    return this.values.get(name)!;
+  }
+}
+
+// The claimer's metric set
+export function createClaimerMetrics(): MetricsRegistry {
+  const registry = new MetricsRegistry();
+  registry.define('claimer_claims_attempted_total', 'counter', 'Positions the claimer tried to redeem');
+  registry.define('claimer_claims_succeeded_total', 'counter', 'Positions redeemed successfully');
+  registry.define('claimer_claims_failed_total', 'counter', 'Positions whose redemption failed');
+  registry.define('claimer_usdc_claimed_total', 'counter', 'USDC redeemed into the proxy wallet');
+  registry.define('claimer_gas_spent_matic_total', 'counter', 'MATIC spent on gas by the signer');
+  registry.define('claimer_api_request_duration_seconds', 'histogram', 'Polymarket data API request latency');
+  registry.define('claimer_api_errors_total', 'counter', 'Failed Polymarket data API requests');
+  registry.define('claimer_eoa_matic_balance', 'gauge', 'MATIC balance of the EOA that pays gas');
+  registry.define('claimer_iteration_duration_seconds', 'histogram', 'Duration of one loop iteration over all accounts');
+  registry.define('claimer_last_success_timestamp_seconds', 'gauge', 'Unix time of the last iteration without fatal errors');
+  return registry;
+}
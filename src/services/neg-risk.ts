@@ -0,0 +1,64 @@
+import { ethers } from 'ethers';
+import { Position } from '../types/position';
+
+// ---------- Negative-risk Redemption --------------------------------------
+// NegRiskAdapter.redeemPositions(conditionId, amounts) burns exact YES/NO
+// amounts, and reverts if either exceeds what the caller holds. Amounts are
+// therefore read from chain (ERC1155 balances of the proxy) rather than derived
+// from the API's float `size`, and every position of a condition is redeemed in
+// a single call covering both outcomes.
+
+const NEG_RISK_ADAPTER_ABI = [
+  'function redeemPositions(bytes32 conditionId, uint256[] amounts)',
+  'function mergePositions(bytes32 conditionId, uint256 amount)',
+];
+
+const CTF_POSITION_ABI = [
+  'function getCollectionId(bytes32 parentCollectionId, bytes32 conditionId, uint256 indexSet) view returns (bytes32)',
+  'function balanceOfBatch(address[] owners, uint256[] ids) view returns (uint256[])',
+];
+
+export const negRiskAdapterInterface = new ethers.Interface(NEG_RISK_ADAPTER_ABI);
+
+export interface NegRiskHoldings {
+  yesId: bigint;
+  noId: bigint;
+  yes: bigint;
+  no: bigint;
+}
+
+export class NegRiskPositions {
+  private ctf: ethers.Contract;
+
+  // Without `wrappedCollateralAddress` (unknown on the network), IDs must come from the positions
+  constructor(ctfAddress: string, private readonly wrappedCollateralAddress: string | undefined, provider: ethers.Provider) {
+    this.ctf = new ethers.Contract(ctfAddress, CTF_POSITION_ABI, provider);
+  }
+
+  // YES/NO token IDs of a condition. Taken from the positions' asset/oppositeAsset
+  // when present, otherwise derived from the CTF with the wrapped collateral.
+  async positionIds(conditionId: string, positions: Position[]): Promise<[bigint, bigint]> {
+    const ids: (bigint | undefined)[] = [undefined, undefined];
+    for (const position of positions) {
+      if (position.outcomeIndex > 1) continue;
+      ids[position.outcomeIndex] = BigInt(position.asset);
+      if (position.oppositeAsset) ids[1 - position.outcomeIndex] = BigInt(position.oppositeAsset);
+    }
+
+    for (const outcomeIndex of [0, 1]) {
+      if (ids[outcomeIndex] !== undefined) continue;
+      if (!this.wrappedCollateralAddress) {
+        throw new Error(`Cannot derive neg-risk position IDs of ${conditionId}: wrapped collateral address not configured`);
+      }
+      const collectionId: string = await this.ctf.getCollectionId(ethers.ZeroHash, conditionId, 1n << BigInt(outcomeIndex));
+      ids[outcomeIndex] = BigInt(ethers.solidityPackedKeccak256(['address', 'bytes32'], [this.wrappedCollateralAddress, collectionId]));
+    }
+    return [ids[0]!, ids[1]!];
+  }
+
+  async holdings(holder: string, conditionId: string, positions: Position[]): Promise<NegRiskHoldings> {
+    const [yesId, noId] = await this.positionIds(conditionId, positions);
+    const [yes, no]: bigint[] = await this.ctf.balanceOfBatch([holder, holder], [yesId, noId]);
+    return { yesId, noId, yes, no };
+  }
+}
@@ -0,0 +1,122 @@
+import { log } from './logger';
+
+// ---------- Notifications ---------------------------------------------------
+// Claim results, low gas balance and fatal errors are pushed to pluggable
+// sinks (JSON webhook, Telegram, Discord, Slack, SMTP) instead of living only
+// in the log file. Each sink may subscribe to a subset of event types.
+// In digest mode events are buffered and sent as one message per run.
+// Sink failures are logged and never interrupt claiming.
+
+export type NotificationEventType = 'claim_succeeded' | 'claim_failed' | 'low_balance' | 'fatal_error';
+
+export const NOTIFICATION_EVENT_TYPES: NotificationEventType[] = ['claim_succeeded', 'claim_failed', 'low_balance', 'fatal_error'];
+
+export type NotificationEvent =
+  | { type: 'claim_succeeded'; account: string; title: string; outcome: string; payout: number; txHash?: string; txUrl?: string }
+  | { type: 'claim_failed'; account: string; title: string; outcome: string; error: string }
+  | { type: 'low_balance'; account: string; address: string; balance: string; threshold: string }
+  | { type: 'fatal_error'; account: string; error: string };
+
+// What a sink receives: rendered text plus the raw events (for JSON webhooks)
+export interface NotificationMessage {
+  subject: string;
+  text: string;
+  digest: boolean;
+  events: NotificationEvent[];
+}
+
+export interface NotificationSink {
+  readonly name: string;
+  readonly events?: Set<NotificationEventType>; // undefined = all events
+  send(message: NotificationMessage): Promise<void>;
+}
+
+export interface NotifierOptions {
+  digest: boolean;
+  events?: Set<NotificationEventType>; // global filter applied before the per-sink ones
+}
+
+const SUBJECT_PREFIX = 'Polymarket claimer';
+
+function accountLabel(account: string): string {
+  return account === 'default' ? '' : `[${account}] `;
+}
+
+export function formatEvent(event: NotificationEvent): string {
+  const label = accountLabel(event.account);
+  switch (event.type) {
+    case 'claim_succeeded':
+      return `✅ ${label}Claimed ${event.payout.toFixed(2)} USDC: ${event.title} (${event.outcome})${event.txUrl ? `\n${event.txUrl}` : ''}`;
+    case 'claim_failed':
+      return `❌ ${label}Claim failed: ${event.title} (${event.outcome}): ${event.error}`;
+    case 'low_balance':
+      return `⛽ ${label}Low gas balance: EOA ${event.address} has ${event.balance} MATIC (threshold ${event.threshold})`;
+    case 'fatal_error':
+      return `🚨 ${label}Fatal error: ${event.error}`;
+  }
+}
+
+function formatMessage(events: NotificationEvent[], digest: boolean): NotificationMessage {
+  if (!digest) {
+    const [event] = events;
+    return { subject: `${SUBJECT_PREFIX}: ${event.type.replace('_', ' ')}`, text: formatEvent(event), digest, events };
+  }
+
+  const count = (type: NotificationEventType) => events.filter(e => e.type === type).length;
+  const claimed = events.reduce((sum, e) => sum + (e.type === 'claim_succeeded' ? e.payout : 0), 0);
+  const parts = [`${count('claim_succeeded')} claimed (${claimed.toFixed(2)} USDC)`, `${count('claim_failed')} failed`];
+  if (count('low_balance')) parts.push(`${count('low_balance')} low balance`);
+  if (count('fatal_error')) parts.push(`${count('fatal_error')} fatal`);
+  const headline = `${SUBJECT_PREFIX} run digest: ${parts.join(', ')}`;
+
+  return {
+    subject: headline,
+    text: [headline, '', ...events.map(formatEvent)].join('\n'),
+    digest,
+    events,
+  };
+}
+
+export class Notifier {
+  private buffer: NotificationEvent[] = [];
+
+  constructor(private readonly sinks: NotificationSink[], private readonly options: NotifierOptions) {}
+
+  get enabled(): boolean {
+    return this.sinks.length > 0;
+  }
+
+  get sinkNames(): string[] {
+    return this.sinks.map(sink => sink.name);
+  }
+
+  async notify(event: NotificationEvent) {
+    if (!this.enabled) return;
+    if (this.options.events && !this.options.events.has(event.type)) return;
+    if (this.options.digest) {
+      this.buffer.push(event);
+      return;
+    }
+    await this.dispatch([event], false);
+  }
+
+  // Send the buffered digest (digest mode); call once at the end of every run
+  async flush() {
+    if (!this.options.digest || this.buffer.length === 0) return;
+    const events = this.buffer;
+    this.buffer = [];
+    await this.dispatch(events, true);
+  }
+
+  private async dispatch(events: NotificationEvent[], digest: boolean) {
+    await Promise.all(this.sinks.map(async sink => {
+      const selected = sink.events ? events.filter(e => sink.events!.has(e.type)) : events;
+      if (selected.length === 0) return;
+      try {
+        await sink.send(formatMessage(selected, digest));
+      } catch (error: any) {
+        log.warn(`⚠️  Notification via ${sink.name} failed: ${error?.message || error}`);
+      }
+    }));
+  }
+}
@@ -0,0 +1,88 @@
+import { ethers } from 'ethers';
+import CTF_ABI from '../contracts/CTF.json';
+import { Position } from '../types/position';
+
+// ---------- On-chain Claimability Verification ----------------------------
+// The data API's `redeemable` / `curPrice` fields lag behind (and sometimes
+// disagree with) chain state. Before claiming, every candidate is checked
+// against the CTF contract:
+//   - payoutDenominator(conditionId) == 0  -> condition not resolved yet
+//   - balanceOf(proxy, positionId)   == 0  -> nothing held (already redeemed)
+//   - payoutNumerators(conditionId, i) == 0 -> losing outcome
+// Survivors get an exact expected payout: balance * numerator / denominator.
+
+export interface DroppedPosition {
+  position: Position;
+  reason: string;
+}
+
+export interface VerificationResult {
+  verified: Position[];
+  dropped: DroppedPosition[];
+}
+
+export class OnChainVerifier {
+  private ctf: ethers.Contract;
+
+  constructor(provider: ethers.Provider, ctfAddress: string) {
+    this.ctf = new ethers.Contract(ctfAddress, CTF_ABI, provider);
+  }
+
+  async verify(holder: string, positions: Position[]): Promise<VerificationResult> {
+    const verified: Position[] = [];
+    const dropped: DroppedPosition[] = [];
+    if (positions.length === 0) return { verified, dropped };
+
+    // Balances for all position tokens in a single call
+    const balances: bigint[] = await this.ctf.balanceOfBatch(
+      positions.map(() => holder),
+      positions.map(p => BigInt(p.asset))
+    );
+
+    // Resolution state once per condition
+    const denominators = new Map<string, bigint>();
+    for (const conditionId of new Set(positions.map(p => p.conditionId.toLowerCase()))) {
+      denominators.set(conditionId, await this.ctf.payoutDenominator(conditionId));
+    }
+
+    for (const [i, position] of positions.entries()) {
+      const balance = balances[i];
+      const payoutDenominator = denominators.get(position.conditionId.toLowerCase()) || 0n;
+
+      if (payoutDenominator === 0n) {
+        dropped.push({ position, reason: 'condition not resolved on-chain' });
+        continue;
+      }
+      if (balance === 0n) {
+        dropped.push({ position, reason: 'zero on-chain balance (already redeemed?)' });
+        continue;
+      }
+
+      const payoutNumerator: bigint = await this.ctf.payoutNumerators(position.conditionId, position.outcomeIndex);
+      if (payoutNumerator === 0n) {
+        dropped.push({ position, reason: 'losing outcome (payout numerator is 0)' });
+        continue;
+      }
+
+      verified.push({
+        ...position,
+        onChain: {
+          balance,
+          payoutNumerator,
+          payoutDenominator,
+          expectedPayout: (balance * payoutNumerator) / payoutDenominator,
+        },
+      });
+    }
+
+    return { verified, dropped };
+  }
+}
+
+// Expected USDC payout for display/accounting: exact on-chain value when
+// verified, otherwise the API's share count (winning shares pay 1 USDC each).
+export function expectedPayoutUsdc(position: Position): number {
+  return position.onChain
+    ? Number(ethers.formatUnits(position.onChain.expectedPayout, 6))
+    : position.size;
+}
@@ -0,0 +1,164 @@
+import { Position } from '../types/position';
+import { expectedPayoutUsdc } from './onchain-verifier';
+
+// ---------- Claim Policy Engine ---------------------------------------------
+// Decides, for every claimable position, whether this run claims it. Rules
+// are checked in a fixed order and the first one that rejects a position is
+// recorded as the reason:
+//
+//   exclude        conditionId list or eventSlug/slug patterns ("*" wildcard)
+//   include        when set, only matching markets are claimed
+//   minPayoutUsdc  expected payout below the threshold
+//   minAgeHours    market ended too recently (time since endDate)
+//   maxAgeHours    market ended too long ago
+//   maxClaimsPerRun  cap per run, largest payouts first; the rest wait for the next run
+//
+// Neg-risk markets use the rules under "negRisk", falling back field by field
+// to the top-level ones; "negRisk": { "enabled": false } skips them outright.
+// Positions without an endDate (chain discovery) pass the age rules, and ones
+// without slugs only match include/exclude through conditionIds.
+
+export interface MarketFilter {
+  conditionIds?: string[];
+  eventSlugs?: string[];
+  slugs?: string[];
+}
+
+export interface PolicyRules {
+  include?: MarketFilter;
+  exclude?: MarketFilter;
+  minPayoutUsdc?: number;
+  minAgeHours?: number;
+  maxAgeHours?: number;
+}
+
+export interface ClaimPolicy extends PolicyRules {
+  maxClaimsPerRun?: number;
+  negRisk?: PolicyRules & { enabled?: boolean };
+}
+
+export interface PolicyDecision {
+  position: Position;
+  claim: boolean;
+  rule: string;   // rule that decided, e.g. "exclude.eventSlugs" or "default"
+  detail: string;
+}
+
+const HOUR_MS = 60 * 60 * 1000;
+
+function globToRegExp(pattern: string): RegExp {
+  const escaped = pattern.split('*').map(part => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&')).join('.*');
+  return new RegExp(`^${escaped}$`, 'i');
+}
+
+class CompiledFilter {
+  private conditionIds: Set<string>;
+  private eventSlugs: RegExp[];
+  private slugs: RegExp[];
+
+  constructor(filter: MarketFilter) {
+    this.conditionIds = new Set((filter.conditionIds || []).map(id => id.toLowerCase()));
+    this.eventSlugs = (filter.eventSlugs || []).map(globToRegExp);
+    this.slugs = (filter.slugs || []).map(globToRegExp);
+  }
+
+  // Name of the matching list, or undefined
+  match(position: Position): string | undefined {
+    if (this.conditionIds.has(position.conditionId.toLowerCase())) return 'conditionIds';
+    if (position.eventSlug && this.eventSlugs.some(re => re.test(position.eventSlug))) return 'eventSlugs';
+    if (position.slug && this.slugs.some(re => re.test(position.slug))) return 'slugs';
+    return undefined;
+  }
+}
+
+interface CompiledRules {
+  overridden: Set<string>; // fields taken from "negRisk", reported with that prefix
+  include?: CompiledFilter;
+  exclude?: CompiledFilter;
+  minPayoutUsdc?: number;
+  minAgeHours?: number;
+  maxAgeHours?: number;
+}
+
+export class ClaimPolicyEngine {
+  private regular: CompiledRules;
+  private negRisk: CompiledRules;
+  private negRiskEnabled: boolean;
+
+  constructor(private readonly policy: ClaimPolicy = {}) {
+    this.regular = ClaimPolicyEngine.compile(policy, []);
+    this.negRisk = ClaimPolicyEngine.compile({ ...policy, ...policy.negRisk }, Object.keys(policy.negRisk || {}));
+    this.negRiskEnabled = policy.negRisk?.enabled !== false;
+  }
+
+  // True when any rule is configured (an empty policy claims everything)
+  get active(): boolean {
+    return Object.keys(this.policy).length > 0;
+  }
+
+  private static compile(rules: PolicyRules, overridden: string[]): CompiledRules {
+    return {
+      overridden: new Set(overridden),
+      include: rules.include ? new CompiledFilter(rules.include) : undefined,
+      exclude: rules.exclude ? new CompiledFilter(rules.exclude) : undefined,
+      minPayoutUsdc: rules.minPayoutUsdc,
+      minAgeHours: rules.minAgeHours,
+      maxAgeHours: rules.maxAgeHours,
+    };
+  }
+
+  evaluate(position: Position, now = Date.now()): PolicyDecision {
+    const decide = (claim: boolean, rule: string, detail: string): PolicyDecision => ({ position, claim, rule, detail });
+    if (position.negativeRisk && !this.negRiskEnabled) {
+      return decide(false, 'negRisk.enabled', 'neg-risk markets are disabled');
+    }
+    const rules = position.negativeRisk ? this.negRisk : this.regular;
+    const rule = (name: string) => rules.overridden.has(name.split('.')[0]) ? `negRisk.${name}` : name;
+
+    const excluded = rules.exclude?.match(position);
+    if (excluded) return decide(false, rule(`exclude.${excluded}`), 'market is excluded');
+
+    let included: string | undefined;
+    if (rules.include) {
+      included = rules.include.match(position);
+      if (!included) return decide(false, rule('include'), 'market is not in the include list');
+    }
+
+    const payout = expectedPayoutUsdc(position);
+    if (rules.minPayoutUsdc !== undefined && payout < rules.minPayoutUsdc) {
+      return decide(false, rule('minPayoutUsdc'), `payout ${payout.toFixed(2)} < ${rules.minPayoutUsdc} USDC`);
+    }
+
+    const ended = position.endDate ? new Date(position.endDate).getTime() : NaN;
+    if (!Number.isNaN(ended)) {
+      const ageHours = (now - ended) / HOUR_MS;
+      if (rules.minAgeHours !== undefined && ageHours < rules.minAgeHours) {
+        return decide(false, rule('minAgeHours'), `ended ${ageHours.toFixed(1)}h ago (< ${rules.minAgeHours}h)`);
+      }
+      if (rules.maxAgeHours !== undefined && ageHours > rules.maxAgeHours) {
+        return decide(false, rule('maxAgeHours'), `ended ${ageHours.toFixed(1)}h ago (> ${rules.maxAgeHours}h)`);
+      }
+    }
+
+    return included
+      ? decide(true, rule(`include.${included}`), 'market is in the include list')
+      : decide(true, 'default', 'no rule rejected it');
+  }
+
+  // Decisions for all positions, in input order, with the per-run cap applied
+  apply(positions: Position[], now = Date.now()): PolicyDecision[] {
+    const decisions = positions.map(position => this.evaluate(position, now));
+    const cap = this.policy.maxClaimsPerRun;
+    if (cap === undefined) return decisions;
+
+    const accepted = decisions
+      .filter(d => d.claim)
+      .sort((a, b) => expectedPayoutUsdc(b.position) - expectedPayoutUsdc(a.position));
+    for (const decision of accepted.slice(cap)) {
+      decision.claim = false;
+      decision.rule = 'maxClaimsPerRun';
+      decision.detail = `over the limit of ${cap} claim(s) per run; left for the next run`;
+    }
+    return decisions;
+  }
+}
@@ -0,0 +1,173 @@
+import axios, { AxiosInstance } from 'axios';
+import { ethers } from 'ethers';
+import { log } from './logger';
+
+// ---------- Gasless Relayer -------------------------------------------------
+// Alternative to sending ProxyWalletFactory.proxy(calls) from the EOA: the EOA
+// signs a relay request (GSN-style, the format the factory accepts through its
+// relay hub) and Polymarket's relayer submits it and pays the gas.
+//
+//   1. GET  {url}/relay-payload?address=<eoa>&type=PROXY -> relay address + nonce
+//   2. sign keccak256("rlx:" ‖ from ‖ to ‖ data ‖ txFee ‖ gasPrice ‖ gasLimit ‖ nonce ‖ relayHub ‖ relay)
+//      with personal_sign
+//   3. POST {url}/submit                                  -> transactionID
+//   4. GET  {url}/transaction?id=<transactionID>          -> state + transactionHash, polled
+//
+// The relayer may replace its transaction (fee bumps), so the hash reported
+// last is the one that counts.
+
+export interface RelayerOptions {
+  url: string;
+  relayHub: string;
+  pollIntervalMs: number;
+  timeoutMs: number; // give up waiting (the transaction is then reported pending)
+}
+
+export interface RelayRequest {
+  proxyWallet: string;
+  factory: string; // ProxyWalletFactory, the relayed call's target
+  data: string;    // encoded proxy(calls)
+  gasLimit: bigint;
+}
+
+export interface RelayOutcome {
+  id: string;
+  hash?: string;
+  state: string;
+  receipt?: ethers.TransactionReceipt | null;
+  pending: boolean; // not mined within timeoutMs
+}
+
+interface RelayPayload {
+  address: string;
+  nonce: string | number;
+}
+
+interface RelayerTransaction {
+  transactionID: string;
+  transactionHash?: string;
+  state: string;
+}
+
+const REQUEST_TIMEOUT_MS = 30_000;
+const RELAY_PREFIX = ethers.hexlify(ethers.toUtf8Bytes('rlx:'));
+const MINED_STATES = ['STATE_MINED', 'STATE_CONFIRMED'];
+const FAILED_STATES = ['STATE_FAILED', 'STATE_INVALID'];
+
+// Hash the EOA signs; txFee and gasPrice are 0 (the relayer is not paid per transaction)
+export function relayStructHash(from: string, request: RelayRequest, nonce: bigint, relayHub: string, relay: string): string {
+  return ethers.keccak256(ethers.concat([
+    RELAY_PREFIX,
+    from,
+    request.factory,
+    request.data,
+    ethers.toBeHex(0n, 32), // txFee
+    ethers.toBeHex(0n, 32), // gasPrice
+    ethers.toBeHex(request.gasLimit, 32),
+    ethers.toBeHex(nonce, 32),
+    relayHub,
+    relay,
+  ]));
+}
+
+export class RelayerClient {
+  private readonly baseUrl: string;
+
+  // `http` is the axios instance requests go through
+  constructor(
+    private readonly provider: ethers.Provider,
+    private readonly options: RelayerOptions,
+    private readonly http: AxiosInstance = axios,
+  ) {
+    this.baseUrl = options.url.replace(/\/+$/, '');
+  }
+
+  get url(): string {
+    return this.baseUrl;
+  }
+
+  // Sign and submit `request`, then wait for the relayer's transaction. `onHash` fires for
+  // every new hash the relayer reports (the first one, and replacements).
+  async relay(signer: ethers.Signer, request: RelayRequest, onHash?: (hash: string) => void): Promise<RelayOutcome> {
+    const from = await signer.getAddress();
+    const payload = await this.get<RelayPayload>('/relay-payload', { address: from, type: 'PROXY' });
+    const nonce = BigInt(payload.nonce);
+    const structHash = relayStructHash(from, request, nonce, this.options.relayHub, payload.address);
+    const signature = await signer.signMessage(ethers.getBytes(structHash));
+
+    const submitted = await this.post<RelayerTransaction>('/submit', {
+      from,
+      to: request.factory,
+      proxyWallet: request.proxyWallet,
+      data: request.data,
+      nonce: nonce.toString(),
+      signature,
+      signatureParams: {
+        gasPrice: '0',
+        gasLimit: request.gasLimit.toString(),
+        relayerFee: '0',
+        relayHub: this.options.relayHub,
+        relay: payload.address,
+      },
+      type: 'PROXY',
+      metadata: '',
+    });
+    const id = submitted.transactionID;
+    log.info(`   📨 Relay request accepted: ${id} (nonce ${nonce})`, { relayId: id });
+
+    let hash: string | undefined;
+    let state = submitted.state;
+    const report = (next?: string) => {
+      if (!next || next === hash) return;
+      hash = next;
+      onHash?.(next);
+    };
+    report(submitted.transactionHash);
+
+    const deadline = Date.now() + this.options.timeoutMs;
+    while (!MINED_STATES.includes(state) && !FAILED_STATES.includes(state)) {
+      if (Date.now() >= deadline) return { id, hash, state, pending: true };
+      await new Promise(resolve => setTimeout(resolve, this.options.pollIntervalMs));
+      let latest: RelayerTransaction | undefined;
+      try {
+        [latest] = await this.get<RelayerTransaction[]>('/transaction', { id });
+      } catch (error: any) {
+        // The request was accepted and may be mined: keep polling, and report it pending at the deadline
+        log.warn(`   ⚠️  ${error.message}; still polling ${id}`, { relayId: id });
+        continue;
+      }
+      if (!latest) continue;
+      state = latest.state;
+      report(latest.transactionHash);
+    }
+
+    // The relayer may call a transaction mined before the node we query has its receipt
+    const receipt = hash ? await this.provider.getTransactionReceipt(hash) : null;
+    return { id, hash, state, receipt, pending: !FAILED_STATES.includes(state) && !receipt };
+  }
+
+  private async get<T>(route: string, params: Record<string, string>): Promise<T> {
+    try {
+      const response = await this.http.get(`${this.baseUrl}${route}`, { params, timeout: REQUEST_TIMEOUT_MS });
+      return response.data as T;
+    } catch (error: any) {
+      throw new Error(`Relayer ${route} failed: ${describe(error)}`);
+    }
+  }
+
+  private async post<T>(route: string, body: unknown): Promise<T> {
+    try {
+      const response = await this.http.post(`${this.baseUrl}${route}`, body, { timeout: REQUEST_TIMEOUT_MS });
+      return response.data as T;
+    } catch (error: any) {
+      throw new Error(`Relayer ${route} failed: ${describe(error)}`);
+    }
+  }
+}
+
+function describe(error: any): string {
+  const status = error?.response?.status;
+  const body = error?.response?.data;
+  if (status) return `HTTP ${status}${body ? ` ${typeof body === 'string' ? body.slice(0, 200) : JSON.stringify(body).slice(0, 200)}` : ''}`;
+  return error?.message || String(error);
+}
@@ -0,0 +1,119 @@
+import axios from 'axios';
+import { ethers } from 'ethers';
+
+// ---------- Remote Signer ---------------------------------------------------
+// ethers Signer backed by an external signing service over JSON-RPC
+// (Web3Signer, Clef, or anything exposing the eth_sign* methods). The key
+// never enters this process: transactions are populated locally, signed
+// remotely with eth_signTransaction and broadcast through our own provider.
+
+const REQUEST_TIMEOUT_MS = 30_000;
+
+export interface RemoteSignerOptions {
+  url: string;
+  address?: string;       // account to sign with; defaults to the first eth_accounts entry
+  authorization?: string; // optional Authorization header value
+}
+
+function quantity(value: ethers.BigNumberish | null | undefined): string | undefined {
+  return value === null || value === undefined ? undefined : ethers.toQuantity(value);
+}
+
+export class RemoteSigner extends ethers.AbstractSigner {
+  private nextId = 1;
+  private resolvedAddress?: string;
+
+  constructor(private readonly options: RemoteSignerOptions, provider?: ethers.Provider | null) {
+    super(provider);
+    if (options.address) this.resolvedAddress = ethers.getAddress(options.address);
+  }
+
+  connect(provider: ethers.Provider | null): RemoteSigner {
+    return new RemoteSigner({ ...this.options, address: this.resolvedAddress ?? this.options.address }, provider);
+  }
+
+  async getAddress(): Promise<string> {
+    if (!this.resolvedAddress) {
+      const accounts = await this.rpc<string[]>('eth_accounts', []);
+      if (!accounts?.length) throw new Error(`Remote signer at ${this.options.url} exposes no accounts`);
+      this.resolvedAddress = ethers.getAddress(accounts[0]);
+    }
+    return this.resolvedAddress;
+  }
+
+  async signTransaction(tx: ethers.TransactionRequest): Promise<string> {
+    const from = await this.getAddress();
+    const resolved = await ethers.resolveProperties({
+      to: tx.to ? ethers.resolveAddress(tx.to, this.provider) : undefined,
+      from: tx.from ? ethers.resolveAddress(tx.from, this.provider) : undefined,
+    });
+    if (resolved.from && resolved.from.toLowerCase() !== from.toLowerCase()) {
+      throw new Error(`Transaction from ${resolved.from} does not match remote signer ${from}`);
+    }
+
+    const request = {
+      from,
+      to: resolved.to ?? undefined,
+      data: tx.data ?? undefined,
+      value: quantity(tx.value) ?? '0x0',
+      nonce: quantity(tx.nonce),
+      gas: quantity(tx.gasLimit),
+      gasPrice: quantity(tx.gasPrice),
+      maxFeePerGas: quantity(tx.maxFeePerGas),
+      maxPriorityFeePerGas: quantity(tx.maxPriorityFeePerGas),
+      chainId: quantity(tx.chainId),
+      type: quantity(tx.type),
+    };
+    const result = await this.rpc<string | { raw: string }>('eth_signTransaction', [request]);
+    // Web3Signer returns the raw transaction, Clef returns { raw, tx }
+    const raw = typeof result === 'string' ? result : result.raw;
+
+    // Make sure the service signed what we asked for
+    const signed = ethers.Transaction.from(raw);
+    const mismatch = signed.from?.toLowerCase() !== from.toLowerCase()
+      || (signed.to ?? undefined)?.toLowerCase() !== request.to?.toLowerCase()
+      || signed.data.toLowerCase() !== (request.data ? ethers.hexlify(request.data) : '0x')
+      || (tx.nonce !== undefined && tx.nonce !== null && signed.nonce !== Number(tx.nonce));
+    if (mismatch) {
+      throw new Error('Remote signer returned a transaction that does not match the request');
+    }
+    return raw;
+  }
+
+  async signMessage(message: string | Uint8Array): Promise<string> {
+    const data = typeof message === 'string' ? ethers.hexlify(ethers.toUtf8Bytes(message)) : ethers.hexlify(message);
+    return this.rpc<string>('eth_sign', [await this.getAddress(), data]);
+  }
+
+  async signTypedData(
+    domain: ethers.TypedDataDomain,
+    types: Record<string, ethers.TypedDataField[]>,
+    value: Record<string, any>
+  ): Promise<string> {
+    const payload = ethers.TypedDataEncoder.getPayload(domain, types, value);
+    const address = await this.getAddress();
+    try {
+      return await this.rpc<string>('eth_signTypedData_v4', [address, JSON.stringify(payload)]);
+    } catch (error: any) {
+      // Web3Signer only knows eth_signTypedData (same v4 semantics)
+      if (error?.rpcCode !== -32601) throw error;
+      return this.rpc<string>('eth_signTypedData', [address, payload]);
+    }
+  }
+
+  private async rpc<T>(method: string, params: unknown[]): Promise<T> {
+    const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+    if (this.options.authorization) headers.Authorization = this.options.authorization;
+
+    const response = await axios.post(this.options.url, { jsonrpc: '2.0', id: this.nextId++, method, params }, {
+      headers,
+      timeout: REQUEST_TIMEOUT_MS,
+    });
+    if (response.data?.error) {
+      const error: any = new Error(`Remote signer ${method} failed: ${response.data.error.message || JSON.stringify(response.data.error)}`);
+      error.rpcCode = response.data.error.code;
+      throw error;
+    }
+    return response.data.result as T;
+  }
+}
@@ -0,0 +1,214 @@
+import { ethers } from 'ethers';
+import fs from 'fs';
+import path from 'path';
+import { log } from './logger';
+
+// ---------- Resolution Watcher ----------------------------------------------
+// Reports markets as they resolve, for `claim --watch`:
+//   CTF ConditionResolution         -> conditionId
+//   NegRiskAdapter OutcomeReported  -> conditionId of the adapter's question
+//                                      (keccak256(adapter, questionId, 2), as in CTHelpers)
+// Logs are polled with eth_getLogs from a block cursor that is checkpointed to a
+// JSON file, so a restart picks up where the last run stopped. With a WebSocket
+// URL the watcher also subscribes to the same logs for low latency; the cursor
+// poll then runs at the heartbeat interval and fills anything the subscription
+// missed. A WebSocket that closes, errors or stops answering the heartbeat is
+// reconnected with exponential backoff. A resolution can be reported twice
+// (subscription and poll); callers treat reports as "check this condition".
+
+const RESOLUTION_ABI = [
+  'event ConditionResolution(bytes32 indexed conditionId, address indexed oracle, bytes32 indexed questionId, uint256 outcomeSlotCount, uint256[] payoutNumerators)',
+  'event OutcomeReported(bytes32 indexed marketId, bytes32 indexed questionId, bool outcome)',
+];
+const resolutionInterface = new ethers.Interface(RESOLUTION_ABI);
+const CONDITION_RESOLUTION = resolutionInterface.getEvent('ConditionResolution')!.topicHash;
+const OUTCOME_REPORTED = resolutionInterface.getEvent('OutcomeReported')!.topicHash;
+
+const MAX_RECONNECT_DELAY_MS = 60_000;
+const SEEN_LOGS = 1000; // log IDs remembered to drop the second report of a log
+
+export interface WatchOptions {
+  chainId: number;
+  ctfAddress: string;
+  negRiskAdapterAddress?: string; // unset: neg-risk resolutions come from ConditionResolution only
+  wsUrl?: string;                 // subscribe over WebSocket; without it logs are only polled
+  pollIntervalMs: number;         // cursor poll interval without a WebSocket
+  heartbeatMs: number;            // WebSocket liveness check and cursor poll interval with one
+  chunkSize: number;              // blocks per eth_getLogs request
+  cursorPath: string;
+}
+
+export interface Resolution {
+  conditionId: string; // lowercase
+  source: 'ctf' | 'neg-risk';
+  blockNumber: number;
+  txHash: string;
+}
+
+function withTimeout<T>(promise: Promise<T>, ms: number, what: string): Promise<T> {
+  let timer: NodeJS.Timeout;
+  const timeout = new Promise<never>((_resolve, reject) => {
+    timer = setTimeout(() => reject(new Error(`${what} timed out after ${ms / 1000}s`)), ms);
+  });
+  return Promise.race([promise, timeout]).finally(() => clearTimeout(timer));
+}
+
+export class ResolutionWatcher {
+  private lastScannedBlock?: number;
+  private ws?: ethers.WebSocketProvider;
+  private timer?: NodeJS.Timeout;
+  private reconnectTimer?: NodeJS.Timeout;
+  private reconnectAttempts = 0;
+  private stopped = true;
+  private polling = false;
+  private seen = new Set<string>();
+
+  constructor(
+    private readonly provider: ethers.Provider,
+    private readonly options: WatchOptions,
+    private readonly onResolution: (resolution: Resolution) => void,
+  ) {}
+
+  private get filter() {
+    const address = [this.options.ctfAddress];
+    if (this.options.negRiskAdapterAddress) address.push(this.options.negRiskAdapterAddress);
+    return { address, topics: [[CONDITION_RESOLUTION, OUTCOME_REPORTED]] };
+  }
+
+  // A fresh cursor starts at the current block: earlier resolutions are the full run's job
+  async start() {
+    this.stopped = false;
+    if (fs.existsSync(this.options.cursorPath)) {
+      this.lastScannedBlock = JSON.parse(fs.readFileSync(this.options.cursorPath, 'utf8')).lastScannedBlock;
+    }
+    if (this.lastScannedBlock === undefined) {
+      this.lastScannedBlock = await this.provider.getBlockNumber();
+      this.saveCursor();
+    }
+    log.info(`👀 Watching resolutions from block ${this.lastScannedBlock + 1} (${this.options.wsUrl ? 'WebSocket subscription + log polling' : 'log polling'})`);
+
+    if (this.options.wsUrl) await this.connect();
+    this.schedulePoll(0);
+  }
+
+  async stop() {
+    this.stopped = true;
+    clearTimeout(this.timer);
+    clearTimeout(this.reconnectTimer);
+    await this.disconnect();
+  }
+
+  private saveCursor() {
+    fs.mkdirSync(path.dirname(this.options.cursorPath), { recursive: true });
+    const tmp = `${this.options.cursorPath}.tmp`;
+    fs.writeFileSync(tmp, JSON.stringify({ lastScannedBlock: this.lastScannedBlock }, null, 2));
+    fs.renameSync(tmp, this.options.cursorPath);
+  }
+
+  private schedulePoll(delayMs: number) {
+    if (this.stopped) return;
+    clearTimeout(this.timer);
+    this.timer = setTimeout(() => this.tick(), delayMs);
+  }
+
+  private async tick() {
+    if (this.ws) await this.checkConnection();
+    await this.poll();
+    this.schedulePoll(this.ws || this.options.wsUrl ? this.options.heartbeatMs : this.options.pollIntervalMs);
+  }
+
+  // Read logs from the cursor to the latest block, chunk by chunk
+  async poll() {
+    if (this.polling || this.lastScannedBlock === undefined) return;
+    this.polling = true;
+    try {
+      const latest = await this.provider.getBlockNumber();
+      for (let from = this.lastScannedBlock + 1; from <= latest && !this.stopped; from += this.options.chunkSize) {
+        const to = Math.min(from + this.options.chunkSize - 1, latest);
+        const logs = await this.provider.getLogs({ ...this.filter, fromBlock: from, toBlock: to });
+        for (const entry of logs) this.handle(entry);
+        this.lastScannedBlock = to;
+        this.saveCursor();
+      }
+    } catch (error: any) {
+      // Retried from the same cursor on the next poll
+      log.warn(`⚠️  Resolution log poll failed: ${error?.shortMessage || error?.message || error}`);
+    } finally {
+      this.polling = false;
+    }
+  }
+
+  private handle(entry: ethers.Log) {
+    const id = `${entry.transactionHash}:${entry.index}`;
+    if (this.seen.has(id)) return;
+    this.seen.add(id);
+    if (this.seen.size > SEEN_LOGS) this.seen.delete(this.seen.values().next().value!);
+
+    let resolution: Resolution;
+    if (entry.topics[0] === CONDITION_RESOLUTION) {
+      resolution = { conditionId: entry.topics[1].toLowerCase(), source: 'ctf', blockNumber: entry.blockNumber, txHash: entry.transactionHash };
+    } else {
+      const questionId = entry.topics[2];
+      const conditionId = ethers.solidityPackedKeccak256(['address', 'bytes32', 'uint256'], [entry.address, questionId, 2]);
+      resolution = { conditionId: conditionId.toLowerCase(), source: 'neg-risk', blockNumber: entry.blockNumber, txHash: entry.transactionHash };
+    }
+    log.debug(`🔔 Resolution of ${resolution.conditionId} (${resolution.source}) in block ${resolution.blockNumber}`, { ...resolution });
+    try {
+      this.onResolution(resolution);
+    } catch (error: any) {
+      log.warn(`⚠️  Resolution handler failed: ${error?.message || error}`);
+    }
+  }
+
+  private async connect() {
+    const ws = new ethers.WebSocketProvider(this.options.wsUrl!, this.options.chainId);
+    this.ws = ws;
+    // Without these, a refused or dropped connection is an unhandled socket error
+    const socket = ws.websocket as ethers.WebSocketLike & { onclose?: () => void };
+    socket.onerror = (error: any) => this.reconnect(`WebSocket error: ${error?.message || 'connection failed'}`, ws);
+    socket.onclose = () => this.reconnect('WebSocket closed', ws);
+    try {
+      // Subscribe only once the socket answers: a subscription request still queued when
+      // the provider is destroyed would be rejected where nothing can catch it
+      await withTimeout(ws.getBlockNumber(), this.options.heartbeatMs, 'WebSocket connection');
+      if (this.ws !== ws) return;
+      await ws.on(this.filter, (entry: ethers.Log) => this.handle(entry));
+      this.reconnectAttempts = 0;
+      log.info('🔌 Subscribed to resolution events over WebSocket');
+    } catch (error: any) {
+      this.reconnect(error?.shortMessage || error?.message || String(error), ws);
+    }
+  }
+
+  private async disconnect() {
+    const ws = this.ws;
+    this.ws = undefined;
+    if (!ws) return;
+    try {
+      await ws.destroy();
+    } catch {
+      // already closed
+    }
+  }
+
+  // Reconnect the WebSocket `ws` (ignored if it was already replaced); polling carries on meanwhile
+  private reconnect(reason: string, ws: ethers.WebSocketProvider) {
+    if (this.stopped || this.ws !== ws) return;
+    void this.disconnect();
+    const delay = Math.min(MAX_RECONNECT_DELAY_MS, 1000 * 2 ** this.reconnectAttempts++);
+    log.warn(`⚠️  ${reason}; reconnecting in ${delay / 1000}s`);
+    clearTimeout(this.reconnectTimer);
+    this.reconnectTimer = setTimeout(() => {
+      if (!this.stopped) void this.connect();
+    }, delay);
+  }
+
+  private async checkConnection() {
+    const ws = this.ws!;
+    try {
+      await withTimeout(ws.getBlockNumber(), this.options.heartbeatMs, 'WebSocket heartbeat');
+    } catch (error: any) {
+      this.reconnect(error?.message || String(error), ws);
+    }
+  }
+}
@@ -0,0 +1,209 @@
+import crypto from 'crypto';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { log } from './logger';
+
+// ---------- Run Lock ---------------------------------------------------------
+// Keeps two runs of the same account from claiming at once: a cron line firing
+// while the previous run still waits for a receipt, a --loop process next to
+// the crontab, or several scaled machines sharing one account. Every run takes
+// the lock of its account (key: chain ID + proxy address) and a run that finds
+// it held is skipped, not queued. Backends:
+//   file (default) - lock file with the holder's PID, host and a heartbeat;
+//                    a holder whose process is gone, or whose heartbeat is
+//                    older than the stale timeout, is taken over
+//   redis://       - SET NX with a TTL the holder keeps extending (lock-backends.ts)
+//   postgres://    - pg_try_advisory_lock on a connection held for the run (lock-backends.ts)
+
+export interface RunLockOptions {
+  staleMs: number;     // a holder silent for longer is presumed dead (file) / the key expires (redis)
+  heartbeatMs: number; // how often a holder refreshes its heartbeat
+}
+
+export const DEFAULT_RUN_LOCK_OPTIONS: RunLockOptions = { staleMs: 120_000, heartbeatMs: 15_000 };
+
+export interface RunLock {
+  readonly backend: string;
+  // Take the lock for `key`, or throw RunLockBusyError while another run holds it
+  acquire(key: string): Promise<LockLease>;
+}
+
+export interface LockLease {
+  readonly key: string;
+  lost?: string; // set when the heartbeat found the lock taken over or gone
+  release(): Promise<void>;
+}
+
+// Who holds a lock, as stored by the file and Redis backends
+export interface LockHolder {
+  token: string;
+  pid: number;
+  hostname: string;
+  acquiredAt: string;
+  heartbeatAt: string;
+}
+
+// Thrown by acquire() when another run holds the lock; the message says who
+export class RunLockBusyError extends Error {
+  constructor(readonly key: string, message: string) {
+    super(message);
+    this.name = 'RunLockBusyError';
+  }
+}
+
+// Thrown before a send once the heartbeat found the run's lock gone: another run may own the account now
+export class RunLockLostError extends Error {
+  constructor(readonly key: string, reason: string) {
+    super(`run lock ${key} lost: ${reason}`);
+    this.name = 'RunLockLostError';
+  }
+}
+
+export function newHolder(): LockHolder {
+  const now = new Date().toISOString();
+  return { token: crypto.randomUUID(), pid: process.pid, hostname: os.hostname(), acquiredAt: now, heartbeatAt: now };
+}
+
+export function describeHolder(holder: LockHolder): string {
+  return `pid ${holder.pid} on ${holder.hostname} since ${holder.acquiredAt}`;
+}
+
+// Tokens of the leases this process holds: a lock file naming our own PID but
+// none of these tokens was left by an earlier process that had the same PID
+// (PID 1 in a restarted container)
+const heldTokens = new Set<string>();
+
+function processAlive(pid: number): boolean {
+  try {
+    process.kill(pid, 0);
+    return true;
+  } catch (error: any) {
+    return error?.code === 'EPERM'; // exists, owned by another user
+  }
+}
+
+function readHolder(file: string): LockHolder | undefined {
+  try {
+    const holder = JSON.parse(fs.readFileSync(file, 'utf8'));
+    return typeof holder?.token === 'string' ? holder : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+// Lock files in a directory, one per key. Works across processes on one host, and
+// across hosts sharing the directory as long as their clocks roughly agree.
+export class FileRunLock implements RunLock {
+  readonly backend = 'file';
+
+  constructor(private readonly dir: string, private readonly options: RunLockOptions = DEFAULT_RUN_LOCK_OPTIONS) {}
+
+  lockPath(key: string): string {
+    return path.join(this.dir, `${key.replace(/[^A-Za-z0-9_.-]/g, '-')}.lock`);
+  }
+
+  async acquire(key: string): Promise<LockLease> {
+    const file = this.lockPath(key);
+    fs.mkdirSync(this.dir, { recursive: true });
+
+    // Second attempt after taking over a stale lock
+    for (let attempt = 0; attempt < 2; attempt++) {
+      const holder = newHolder();
+      try {
+        fs.writeFileSync(file, JSON.stringify(holder), { flag: 'wx' });
+        return new FileLease(key, file, holder, this.options.heartbeatMs);
+      } catch (error: any) {
+        if (error?.code !== 'EEXIST') throw error;
+      }
+
+      const current = readHolder(file);
+      const stale = this.staleReason(file, current);
+      if (!stale) {
+        throw new RunLockBusyError(key, current ? `held by ${describeHolder(current)}` : 'lock file is being written');
+      }
+
+      // Move the stale file aside before removing it, so of two runs taking over
+      // at once only one removes it and the other retries against the new lock
+      const aside = `${file}.stale-${holder.token}`;
+      try {
+        fs.renameSync(file, aside);
+      } catch (error: any) {
+        if (error?.code === 'ENOENT') continue;
+        throw error;
+      }
+      const moved = readHolder(aside);
+      if (current && moved?.token !== current.token) {
+        // Another run replaced the stale lock between our read and the rename: put its lock back
+        try {
+          fs.linkSync(aside, file);
+        } catch {
+          // a third run took the free slot meanwhile
+        }
+        fs.rmSync(aside, { force: true });
+        throw new RunLockBusyError(key, moved ? `held by ${describeHolder(moved)}` : 'lock was just taken over');
+      }
+      fs.rmSync(aside, { force: true });
+      log.warn(`⚠️  Taking over stale run lock ${key}: ${stale}`, { lockKey: key });
+    }
+    throw new RunLockBusyError(key, 'lock was just taken by another run');
+  }
+
+  // Why the lock in `file` can be taken over, if it can
+  private staleReason(file: string, holder?: LockHolder): string | undefined {
+    if (!holder) {
+      // Unreadable: a holder mid-write, or garbage; judge by the file's age
+      try {
+        const age = Date.now() - fs.statSync(file).mtimeMs;
+        return age > this.options.staleMs ? `unreadable lock file ${Math.round(age / 1000)}s old` : undefined;
+      } catch {
+        return 'lock file vanished';
+      }
+    }
+    if (holder.hostname === os.hostname()) {
+      if (holder.pid === process.pid && !heldTokens.has(holder.token)) return `left by an earlier process with pid ${holder.pid}`;
+      if (holder.pid !== process.pid && !processAlive(holder.pid)) return `process ${holder.pid} is gone`;
+    }
+    const silent = Date.now() - Date.parse(holder.heartbeatAt);
+    if (!(silent <= this.options.staleMs)) return `no heartbeat from ${describeHolder(holder)} for ${Math.round(silent / 1000)}s`;
+    return undefined;
+  }
+}
+
+class FileLease implements LockLease {
+  lost?: string;
+  private timer: NodeJS.Timeout;
+
+  constructor(readonly key: string, private readonly file: string, private readonly holder: LockHolder, heartbeatMs: number) {
+    heldTokens.add(holder.token);
+    this.timer = setInterval(() => this.heartbeat(), heartbeatMs);
+    this.timer.unref();
+  }
+
+  private owned(): boolean {
+    return readHolder(this.file)?.token === this.holder.token;
+  }
+
+  private heartbeat() {
+    if (this.lost) return;
+    try {
+      if (!this.owned()) {
+        this.lost = 'lock file was removed or taken over';
+        log.warn(`⚠️  Lost run lock ${this.key}: ${this.lost}`, { lockKey: this.key });
+        return;
+      }
+      this.holder.heartbeatAt = new Date().toISOString();
+      const tmp = `${this.file}.${this.holder.token}.tmp`;
+      fs.writeFileSync(tmp, JSON.stringify(this.holder));
+      fs.renameSync(tmp, this.file);
+    } catch (error: any) {
+      log.warn(`⚠️  Run lock heartbeat failed: ${error?.message || error}`, { lockKey: this.key });
+    }
+  }
+
+  async release() {
+    clearInterval(this.timer);
+    heldTokens.delete(this.holder.token);
+    if (this.owned()) fs.rmSync(this.file, { force: true });
+  }
+}
@@ -0,0 +1,100 @@
+import axios from 'axios';
+
+// ---------- Safe Transaction Service ----------------------------------------
+// Minimal client for the Safe Transaction Service REST API, used when the
+// Safe's threshold is above 1: the claimer proposes its signed transaction,
+// the other owners confirm it (Safe web/mobile app), and a later run executes
+// it once enough confirmations are collected. The base URL is configurable,
+// so a self-hosted service or a local stand-in works as well.
+
+const REQUEST_TIMEOUT_MS = 30_000;
+
+export interface SafeTxProposal {
+  to: string;
+  value: string;
+  data: string;
+  operation: number;
+  safeTxGas: string;
+  baseGas: string;
+  gasPrice: string;
+  gasToken: string;
+  refundReceiver: string;
+  nonce: number;
+  contractTransactionHash: string; // safeTxHash
+  sender: string;
+  signature: string;
+  origin?: string;
+}
+
+export interface SafeTxConfirmation {
+  owner: string;
+  signature: string;
+}
+
+export interface SafeMultisigTransaction {
+  safe: string;
+  to: string;
+  value: string;
+  data: string | null;
+  operation: number;
+  safeTxGas: string | number;
+  baseGas: string | number;
+  gasPrice: string;
+  gasToken: string;
+  refundReceiver: string;
+  nonce: number;
+  safeTxHash: string;
+  isExecuted: boolean;
+  isSuccessful: boolean | null;
+  transactionHash: string | null;
+  confirmationsRequired: number;
+  confirmations: SafeTxConfirmation[];
+}
+
+export class SafeTxService {
+  private readonly baseUrl: string;
+
+  constructor(baseUrl: string, private readonly apiKey?: string) {
+    this.baseUrl = baseUrl.replace(/\/+$/, '');
+  }
+
+  get url(): string {
+    return this.baseUrl;
+  }
+
+  private get headers(): Record<string, string> {
+    const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+    if (this.apiKey) headers.Authorization = `Bearer ${this.apiKey}`;
+    return headers;
+  }
+
+  async propose(safeAddress: string, proposal: SafeTxProposal): Promise<void> {
+    await axios.post(`${this.baseUrl}/api/v1/safes/${safeAddress}/multisig-transactions/`, proposal, {
+      headers: this.headers,
+      timeout: REQUEST_TIMEOUT_MS,
+    }).catch(error => {
+      throw new Error(`Safe Transaction Service rejected the proposal: ${describe(error)}`);
+    });
+  }
+
+  // undefined when the service doesn't know the transaction (never stored, or deleted)
+  async getTransaction(safeTxHash: string): Promise<SafeMultisigTransaction | undefined> {
+    try {
+      const response = await axios.get(`${this.baseUrl}/api/v1/multisig-transactions/${safeTxHash}/`, {
+        headers: this.headers,
+        timeout: REQUEST_TIMEOUT_MS,
+      });
+      return response.data as SafeMultisigTransaction;
+    } catch (error: any) {
+      if (error?.response?.status === 404) return undefined;
+      throw new Error(`Safe Transaction Service lookup of ${safeTxHash} failed: ${describe(error)}`);
+    }
+  }
+}
+
+function describe(error: any): string {
+  const status = error?.response?.status;
+  const body = error?.response?.data;
+  if (status) return `HTTP ${status}${body ? ` ${typeof body === 'string' ? body.slice(0, 200) : JSON.stringify(body).slice(0, 200)}` : ''}`;
+  return error?.message || String(error);
+}
@@ -0,0 +1,58 @@
+import { ethers } from 'ethers';
+
+// ---------- Safe Signer Bridge ----------------------------------------------
+// The Safe SDK accepts either a private key string or an EIP-1193 provider
+// plus a signer address. To keep key material out of Safe.init, every signer
+// backend is exposed to the SDK through this minimal EIP-1193 provider:
+// account and signing requests go to the ethers Signer, everything else is
+// forwarded to the RPC provider.
+
+interface RequestArguments {
+  readonly method: string;
+  readonly params?: readonly unknown[] | object;
+}
+
+export class SignerBridge {
+  constructor(private readonly signer: ethers.Signer, private readonly provider: ethers.JsonRpcProvider) {}
+
+  async request({ method, params }: RequestArguments): Promise<unknown> {
+    const args = Array.isArray(params) ? params : [];
+    switch (method) {
+      case 'eth_accounts':
+      case 'eth_requestAccounts':
+        return [await this.signer.getAddress()];
+
+      case 'eth_chainId':
+        return ethers.toQuantity((await this.provider.getNetwork()).chainId);
+
+      case 'eth_signTypedData_v4': {
+        await this.assertAccount(args[0]);
+        const typedData = typeof args[1] === 'string' ? JSON.parse(args[1]) : args[1];
+        const { EIP712Domain: _domainType, ...types } = typedData.types;
+        return this.signer.signTypedData(typedData.domain, types, typedData.message);
+      }
+
+      case 'personal_sign':
+        await this.assertAccount(args[1]);
+        return this.signer.signMessage(ethers.getBytes(args[0] as string));
+
+      case 'eth_sign':
+        await this.assertAccount(args[0]);
+        return this.signer.signMessage(ethers.getBytes(args[1] as string));
+
+      case 'eth_sendTransaction':
+        // Transactions are sent by the claimer itself (gas strategy); never through the SDK
+        throw new Error('eth_sendTransaction is not supported through the Safe signer bridge');
+
+      default:
+        return this.provider.send(method, args as unknown[]);
+    }
+  }
+
+  private async assertAccount(address: unknown) {
+    const own = await this.signer.getAddress();
+    if (typeof address !== 'string' || address.toLowerCase() !== own.toLowerCase()) {
+      throw new Error(`Signing requested for ${address}, but the configured signer is ${own}`);
+    }
+  }
+}
@@ -0,0 +1,150 @@
+import { ethers } from 'ethers';
+import CTF_ABI from '../contracts/CTF.json';
+import ERC20_ABI from '../contracts/ERC20.json';
+
+// ---------- Claim Simulation ----------------------------------------------
+// Runs the exact transaction a claim would send (Safe execTransaction or
+// ProxyWalletFactory.proxy) through eth_call + estimateGas before anything is
+// broadcast, and decodes revert data into a readable reason.
+//
+// For the proxy path the simulated batch is wrapped in USDC.balanceOf(proxy)
+// calls (the factory returns every call's return data), which yields the real
+// simulated USDC delta. Safe execTransaction only returns a bool, so for Safe
+// wallets the delta is reported as the on-chain-verified expected payout.
+// Multisig Safes can't run execTransaction with a single signature; their
+// calls are simulated one by one with the Safe as the sender instead.
+
+// Known revert codes of the Safe contracts (GSxxx strings)
+const SAFE_ERROR_CODES: Record<string, string> = {
+  GS010: 'Not enough gas to execute Safe transaction',
+  GS011: 'Could not pay gas costs with ether',
+  GS012: 'Could not pay gas costs with token',
+  GS013: 'Safe transaction failed when gasPrice and safeTxGas were 0 (inner call reverted)',
+  GS020: 'Signatures data too short',
+  GS025: 'Hash has not been approved',
+  GS026: 'Invalid owner provided (signer is not an owner)',
+};
+
+// Custom errors of the NegRiskAdapter; Error(string)/Panic are handled separately
+const NEG_RISK_ADAPTER_ERRORS = [
+  'error UnexpectedCollateralToken()',
+  'error InvalidIndexSet()',
+  'error LengthMismatch()',
+  'error NotApprovedForAll()',
+  'error OnlyOperator()',
+  'error OnlyAdmin()',
+];
+
+const errorInterfaces = [
+  new ethers.Interface(NEG_RISK_ADAPTER_ERRORS),
+  new ethers.Interface(CTF_ABI),
+];
+
+// Pull revert data out of the different shapes ethers / RPC providers use
+export function revertDataOf(error: any): string | undefined {
+  const candidates = [error?.data, error?.info?.error?.data, error?.error?.data, error?.revert?.data];
+  for (const candidate of candidates) {
+    if (typeof candidate === 'string' && candidate.startsWith('0x')) return candidate;
+    if (typeof candidate?.data === 'string') return candidate.data;
+  }
+  return undefined;
+}
+
+export function decodeRevert(data: string | undefined): string {
+  if (!data || data === '0x') return 'reverted without reason';
+
+  const coder = ethers.AbiCoder.defaultAbiCoder();
+  const selector = data.slice(0, 10);
+  try {
+    if (selector === '0x08c379a0') {
+      const [reason] = coder.decode(['string'], ethers.dataSlice(data, 4));
+      return SAFE_ERROR_CODES[reason] ? `${reason}: ${SAFE_ERROR_CODES[reason]}` : reason;
+    }
+    if (selector === '0x4e487b71') {
+      const [code] = coder.decode(['uint256'], ethers.dataSlice(data, 4));
+      return `panic 0x${code.toString(16)}`;
+    }
+  } catch {
+    // fall through to custom errors
+  }
+
+  for (const iface of errorInterfaces) {
+    const parsed = iface.parseError(data);
+    if (parsed) return `${parsed.name}(${parsed.args.join(', ')})`;
+  }
+  return `unknown revert data ${data.slice(0, 74)}`;
+}
+
+export interface SimulationResult {
+  ok: boolean;
+  gasEstimate?: bigint;
+  usdcDelta?: bigint;       // USDC change on the proxy (6 decimals)
+  deltaSimulated?: boolean; // true when usdcDelta came from the simulation itself
+  revertReason?: string;
+}
+
+export interface ProxyCall {
+  to: string;
+  typeCode: number;
+  data: string;
+  value: bigint | number;
+}
+
+export class ClaimSimulator {
+  private usdc: ethers.Interface = new ethers.Interface(ERC20_ABI);
+
+  constructor(private readonly provider: ethers.Provider, private readonly usdcAddress: string) {}
+
+  async simulateProxy(factory: ethers.Contract, proxyAddress: string, calls: ProxyCall[]): Promise<SimulationResult> {
+    const balanceCall: ProxyCall = {
+      to: this.usdcAddress,
+      typeCode: 1,
+      data: this.usdc.encodeFunctionData('balanceOf', [proxyAddress]),
+      value: 0,
+    };
+
+    try {
+      const returnValues: string[] = await factory.proxy.staticCall([balanceCall, ...calls, balanceCall]);
+      const before = BigInt(returnValues[0]);
+      const after = BigInt(returnValues[returnValues.length - 1]);
+      const gasEstimate: bigint = await factory.proxy.estimateGas(calls);
+      return { ok: true, gasEstimate, usdcDelta: after - before, deltaSimulated: true };
+    } catch (error: any) {
+      return { ok: false, revertReason: this.reasonOf(error) };
+    }
+  }
+
+  async simulateSafe(from: string, safeAddress: string, execData: string): Promise<SimulationResult> {
+    try {
+      const request = { from, to: safeAddress, data: execData };
+      const result = await this.provider.call(request);
+      const [success] = ethers.AbiCoder.defaultAbiCoder().decode(['bool'], result);
+      if (!success) return { ok: false, revertReason: 'execTransaction returned false (inner call failed)' };
+      const gasEstimate = await this.provider.estimateGas(request);
+      return { ok: true, gasEstimate };
+    } catch (error: any) {
+      return { ok: false, revertReason: this.reasonOf(error) };
+    }
+  }
+
+  // Each call on its own with `from` as msg.sender; the gas estimate is the sum of the calls
+  async simulateCalls(from: string, calls: Array<{ to: string; data: string; value?: bigint }>): Promise<SimulationResult> {
+    let gasEstimate = 0n;
+    try {
+      for (const call of calls) {
+        const request = { from, to: call.to, data: call.data, value: call.value ?? 0n };
+        await this.provider.call(request);
+        gasEstimate += await this.provider.estimateGas(request);
+      }
+      return { ok: true, gasEstimate };
+    } catch (error: any) {
+      return { ok: false, revertReason: this.reasonOf(error) };
+    }
+  }
+
+  private reasonOf(error: any): string {
+    const data = revertDataOf(error);
+    if (data) return decodeRevert(data);
+    return error?.reason || error?.shortMessage || error?.message || 'unknown error';
+  }
+}
@@ -0,0 +1,111 @@
+import http from 'http';
+import { MetricsRegistry } from './metrics';
+
+// ---------- Status Server ---------------------------------------------------
+// Optional HTTP endpoint for loop mode:
+//   GET /healthz  200 while iterations succeed on schedule, 503 once overdue
+//   GET /status   JSON: last run summaries, pending claims, wallet balances
+//   GET /metrics  Prometheus text format
+// An iteration counts as overdue when no successful one finished within
+// OVERDUE_INTERVALS x the loop interval.
+
+const OVERDUE_INTERVALS = 2;
+
+export interface IterationReport {
+  runId?: string;
+  iteration: number;
+  startedAt: string;
+  finishedAt: string;
+  durationMs: number;
+  ok: boolean;          // no account hit a fatal error or a degraded position discovery
+  degraded: boolean;    // some account's discovery was incomplete (e.g. the data API kept failing)
+  summaries: object[];
+  balances: object[];
+}
+
+export interface StatusServerOptions {
+  port: number;
+  host: string;
+  intervalMs: number;
+  metrics: MetricsRegistry;
+  pendingClaims: () => object[];
+}
+
+export class StatusServer {
+  private server?: http.Server;
+  private readonly startedAt = Date.now();
+  private lastIteration?: IterationReport;
+  private lastSuccessAt?: number;
+
+  constructor(private readonly options: StatusServerOptions) {}
+
+  recordIteration(report: IterationReport) {
+    this.lastIteration = report;
+    if (report.ok) this.lastSuccessAt = Date.parse(report.finishedAt);
+  }
+
+  health(): { healthy: boolean; body: object } {
+    const overdueAfterMs = this.options.intervalMs * OVERDUE_INTERVALS;
+    const reference = this.lastSuccessAt ?? this.startedAt;
+    const overdue = Date.now() - reference > overdueAfterMs;
+    const status = overdue ? 'overdue' : this.lastSuccessAt ? 'ok' : 'starting';
+    return {
+      healthy: !overdue,
+      body: {
+        status,
+        lastSuccessAt: this.lastSuccessAt ? new Date(this.lastSuccessAt).toISOString() : null,
+        lastIterationAt: this.lastIteration?.finishedAt ?? null,
+        lastIterationOk: this.lastIteration?.ok ?? null,
+        lastIterationDegraded: this.lastIteration?.degraded ?? null,
+        intervalMinutes: this.options.intervalMs / 60_000,
+        overdueAfterSeconds: overdueAfterMs / 1000,
+      },
+    };
+  }
+
+  start(): Promise<void> {
+    this.server = http.createServer((req, res) => {
+      const pathname = (req.url || '/').split('?')[0];
+      if (req.method !== 'GET') {
+        res.writeHead(405, { Allow: 'GET' }).end();
+        return;
+      }
+      try {
+        if (pathname === '/healthz') {
+          const { healthy, body } = this.health();
+          this.json(res, healthy ? 200 : 503, body);
+        } else if (pathname === '/status') {
+          this.json(res, 200, {
+            ...this.health().body,
+            lastRun: this.lastIteration ?? null,
+            pendingClaims: this.options.pendingClaims(),
+          });
+        } else if (pathname === '/metrics') {
+          res.writeHead(200, { 'Content-Type': 'text/plain; version=0.0.4' }).end(this.options.metrics.render());
+        } else {
+          this.json(res, 404, { error: 'not found' });
+        }
+      } catch (error: any) {
+        this.json(res, 500, { error: error?.message || String(error) });
+      }
+    });
+
+    return new Promise((resolve, reject) => {
+      this.server!.once('error', reject);
+      this.server!.listen(this.options.port, this.options.host, () => resolve());
+    });
+  }
+
+  stop(): Promise<void> {
+    if (!this.server) return Promise.resolve();
+    const server = this.server;
+    return new Promise(resolve => {
+      server.close(() => resolve());
+      server.closeAllConnections(); // don't wait for idle keep-alive scrapers
+    });
+  }
+
+  private json(res: http.ServerResponse, status: number, body: object) {
+    res.writeHead(status, { 'Content-Type': 'application/json' }).end(JSON.stringify(body, null, 2));
+  }
+}
@@ -0,0 +1,59 @@
+import { ethers } from 'ethers';
+
+// ---------- USDC Sweep Planning ---------------------------------------------
+// Claimed USDC accumulates in the proxy wallet. When its balance is above
+// `threshold`, the excess over `keep` (or `percent` of that excess) is moved
+// to a treasury address with a plain USDC transfer executed from the proxy,
+// through the same Safe / ProxyWalletFactory path as claims. Amounts are in
+// USDC base units (6 decimals).
+
+export interface SweepOptions {
+  to: string;
+  threshold: bigint; // sweep only when the balance is above this
+  keep: bigint;      // always left in the proxy so trading can continue
+  percent: number;   // share of the excess over `keep` to move, 1-100
+}
+
+export interface SweepPlan {
+  to: string;
+  balance: bigint; // proxy balance the plan is based on (including expected claim payouts)
+  amount: bigint;
+  call: { to: string; data: string };
+}
+
+const ERC20_INTERFACE = new ethers.Interface([
+  'function balanceOf(address) view returns (uint256)',
+  'function transfer(address to, uint256 amount) returns (bool)',
+]);
+
+// Amount to sweep from `balance`, or 0n when nothing should move
+export function sweepAmount(balance: bigint, options: SweepOptions): bigint {
+  if (balance <= options.threshold || balance <= options.keep) return 0n;
+  return (balance - options.keep) * BigInt(Math.round(options.percent * 100)) / 10_000n;
+}
+
+export class SweepPlanner {
+  private usdc: ethers.Contract;
+
+  constructor(provider: ethers.Provider, private readonly usdcAddress: string, private readonly options: SweepOptions) {
+    this.usdc = new ethers.Contract(usdcAddress, ERC20_INTERFACE, provider);
+  }
+
+  get destination(): string {
+    return this.options.to;
+  }
+
+  // `pendingUsdc` is added to the on-chain balance: payouts of claims that are
+  // not mined yet (dry-run, or a transfer batched into the claim transaction)
+  async plan(holder: string, pendingUsdc = 0n): Promise<SweepPlan | undefined> {
+    const balance: bigint = await this.usdc.balanceOf(holder) + pendingUsdc;
+    const amount = sweepAmount(balance, this.options);
+    if (amount === 0n) return undefined;
+    return {
+      to: this.options.to,
+      balance,
+      amount,
+      call: { to: this.usdcAddress, data: ERC20_INTERFACE.encodeFunctionData('transfer', [this.options.to, amount]) },
+    };
+  }
+}
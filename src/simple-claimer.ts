@@ -1,10 +1,31 @@
 #!/usr/bin/env node
 import { ethers } from 'ethers';
-import Safe from '@safe-global/protocol-kit';
-import axios from 'axios';
 import dotenv from 'dotenv';
 import fs from 'fs';
 import path from 'path';
+import { ClaimerOptions, RunSummary, SimplePolymarketClaimer, VerifyReport, emptySummary } from './claimer';
+import { ClaimLedger } from './services/claim-ledger';
+import { AccountConfig, POSITION_SOURCES, PositionSource, loadAccountsConfig } from './config/accounts';
+import { NetworkProfile, loadNetworkProfile } from './config/networks';
+import { SignerConfig, signerConfigFromEnv, validateSignerConfig } from './config/signer';
+import { DataApiOptions } from './services/data-api';
+import { GasOptions } from './services/gas-manager';
+import { createClaimerMetrics } from './services/metrics';
+import { Notifier } from './services/notifier';
+import { loadNotificationSinks, parseEventList } from './config/notifications';
+import { ClaimPolicy } from './services/policy-engine';
+import { loadClaimPolicy } from './config/claim-policy';
+import { RelayerOptions } from './services/relayer';
+import { SafeTxService } from './services/safe-tx-service';
+import { SweepOptions } from './services/sweep-planner';
+import { TopUpOptions } from './services/gas-topup';
+import { expectedPayoutUsdc } from './services/onchain-verifier';
+import { ResolutionWatcher } from './services/resolution-watcher';
+import { RunLock } from './services/run-lock';
+import { createRunLock } from './services/lock-backends';
+import { StatusServer } from './services/status-server';
+import { CommandName, ParsedArgs, UsageError, helpText, parseArgs } from './cli/args';
+import { LOG_FORMATS, LOG_LEVELS, LogFormat, LogLevel, log, newRunId } from './services/logger';
 
 // ---------- Environment Loading Strategy ---------------------------------
 // Allow keeping the sensitive .env file OUTSIDE the repository directory.
@@ -71,34 +92,56 @@ if (!loadedEnvFile) {
   if (result.parsed) loadedEnvFile = path.resolve(executionCwd, '.env (default resolution)');
 }
 
-if (loadedEnvFile) {
-  console.log(`🔐 Loaded environment variables from: ${loadedEnvFile}`);
-} else {
-  console.warn('⚠️  No .env file found (proceeding with existing environment variables).');
+// Parse command line arguments (after env load so flags don't affect dotenv resolution now).
+// Commands and every accepted option are declared in src/cli/args.ts; when the module is
+// imported rather than run, the host process's argv is not ours to parse.
+let cli: ParsedArgs;
+try {
+  cli = parseArgs(require.main === module ? process.argv.slice(2) : []);
+} catch (error) {
+  if (!(error instanceof UsageError)) throw error;
+  console.error(`❌ ${error.message}`);
+  console.error(`   Run \`simple-claimer ${error.command ? `${error.command} ` : ''}--help\` for usage.`);
+  process.exit(2);
 }
-
-// Parse command line arguments (after env load so flags don't affect dotenv resolution now)
-const args = process.argv.slice(2);
-const isDryRun = args.includes('--dry-run') || args.includes('-d');
+if (cli.flag('--help')) {
+  console.log(helpText(cli.explicitCommand ? cli.command : undefined));
+  process.exit(0);
+}
+const command: CommandName = cli.command;
+// --json : print the command result as JSON on stdout; logs move to stderr
+const jsonOutput = cli.flag('--json');
+const isDryRun = cli.flag('--dry-run');
 
 // Loop / scheduling options
 // --loop : run forever (default 60m interval unless overridden)
 // --interval <minutes> OR --interval=<minutes> : customize interval
 // Environment fallback: LOOP_INTERVAL_MINUTES
-const wantsLoop = args.includes('--loop');
-let intervalMinutes: number | undefined;
-const intervalFlagIndex = args.findIndex((a: string) => a === '--interval' || a.startsWith('--interval='));
-if (intervalFlagIndex !== -1) {
-  const token = args[intervalFlagIndex];
-  if (token.includes('=')) {
-    const val = token.split('=')[1];
-    const parsed = Number(val);
-    if (!Number.isNaN(parsed) && parsed > 0) intervalMinutes = parsed;
-  } else if (args[intervalFlagIndex + 1]) {
-    const parsed = Number(args[intervalFlagIndex + 1]);
-    if (!Number.isNaN(parsed) && parsed > 0) intervalMinutes = parsed;
-  }
+const wantsLoop = cli.flag('--loop');
+// --watch : claim right after markets resolve (env WATCH=true); see the watch options below
+const watchMode = cli.flag('--watch') || process.env.WATCH === 'true';
+
+// Logging
+// --log-level debug|info|warn|error : minimum level printed (env LOG_LEVEL, default info)
+// --log-format pretty|json          : emoji console output (default) or one JSON object per line (env LOG_FORMAT)
+// --report <path>                   : write the structured run report to a file after every run (env RUN_REPORT_PATH)
+const logLevelOption = cli.string('--log-level') || process.env.LOG_LEVEL || 'info';
+const logFormatOption = cli.string('--log-format') || process.env.LOG_FORMAT || 'pretty';
+if (!LOG_LEVELS.includes(logLevelOption as LogLevel) || !LOG_FORMATS.includes(logFormatOption as LogFormat)) {
+  console.error(`❌ Invalid --log-level "${logLevelOption}" or --log-format "${logFormatOption}" (expected ${LOG_LEVELS.join('|')} and ${LOG_FORMATS.join('|')})`);
+  process.exit(1);
+}
+log.configure({ level: logLevelOption as LogLevel, format: logFormatOption as LogFormat, stderr: jsonOutput });
+const reportOption = cli.string('--report') || process.env.RUN_REPORT_PATH;
+const reportPath = reportOption ? path.resolve(executionCwd, reportOption) : undefined;
+
+if (loadedEnvFile) {
+  log.info(`🔐 Loaded environment variables from: ${loadedEnvFile}`);
+} else {
+  log.warn('⚠️  No .env file found (proceeding with existing environment variables).');
 }
+
+let intervalMinutes: number | undefined = cli.number('--interval');
 if (!intervalMinutes) {
   const envInterval = process.env.LOOP_INTERVAL_MINUTES;
   if (envInterval && !Number.isNaN(Number(envInterval)) && Number(envInterval) > 0) {
@@ -109,578 +152,798 @@ if (wantsLoop && !intervalMinutes) {
   intervalMinutes = 60; // default 60 minutes
 }
 
-// Guard: if user supplied interval without --loop, enable loop implicitly
-if (!wantsLoop && intervalMinutes) {
-  console.log(`ℹ️  Interval specified (${intervalMinutes}m) without --loop flag; enabling loop mode.`);
+// Guard: if user supplied interval without --loop, enable loop implicitly (in watch mode it paces the full runs)
+if (!wantsLoop && intervalMinutes && !watchMode) {
+  log.info(`ℹ️  Interval specified (${intervalMinutes}m) without --loop flag; enabling loop mode.`);
 }
 
 const loopMode = wantsLoop || !!intervalMinutes;
 if (intervalMinutes && intervalMinutes < 1) {
-  console.warn('⚠️  Interval < 1 minute not allowed, setting to 1.');
+  log.warn('⚠️  Interval < 1 minute not allowed, setting to 1.');
   intervalMinutes = 1;
 }
 
-// Configuration
-const config = {
-  // Polygon Mainnet
-  mainnet: {
-    chainId: 137,
-    ctfAddress: '0x4D97DCd97eC945f40cF65F87097ACe5EA0476045',
-    usdcAddress: '0x2791Bca1f2de4661ED88A30C99A7a9449Aa84174',
-    polymarketApi: 'https://data-api.polymarket.com',
-  },
-  // Mumbai Testnet
-  testnet: {
-    chainId: 80001,
-    ctfAddress: '0x7D8610E9567d2a6C9FBB66a99Fb1438587be9F0E',
-    usdcAddress: '0xe11A86849d99F524cAC3E7A0Ec1241828e332C62',
-    polymarketApi: 'https://data-api-testnet.polymarket.com',
-  },
+// Batching options
+// --batch-size <n>    : max positions redeemed per transaction (env MAX_BATCH_SIZE, default 20)
+// --max-batch-gas <n> : gas ceiling for a single batch transaction (env MAX_BATCH_GAS, default 5,000,000)
+// Batches above the gas ceiling, or batches that revert, are bisected until the bad position is isolated.
+const maxBatchSize = Math.max(1, Math.floor(cli.number('--batch-size') || Number(process.env.MAX_BATCH_SIZE) || 20));
+const maxBatchGas = BigInt(Math.floor(cli.number('--max-batch-gas') || Number(process.env.MAX_BATCH_GAS) || 5_000_000));
+
+// Claim ledger (idempotency across runs)
+// --ledger <path> : JSON-lines ledger file (env CLAIM_LEDGER_PATH, default <repo_root>/claim-results/ledger.jsonl)
+const ledgerOption = cli.string('--ledger') || process.env.CLAIM_LEDGER_PATH;
+const ledgerPath = ledgerOption
+  ? path.resolve(executionCwd, ledgerOption)
+  : path.resolve(repoRoot, 'claim-results', 'ledger.jsonl');
+
+// Position discovery
+// --source api|chain|both : where positions come from (env POSITION_SOURCE, default api)
+//   api   - Polymarket data API
+//   chain - CTF transfer/resolution logs only (works when the API is down)
+//   both  - union of the two, with discrepancies reported
+// --from-block <n>        : first block of the initial chain scan (env CHAIN_SCAN_START_BLOCK)
+// --chain-cursor <path>   : checkpoint file for incremental scans (env CHAIN_CURSOR_PATH,
+//                           default <repo_root>/claim-results/chain-cursor-<proxy>.json)
+// CHAIN_SCAN_CHUNK        : blocks per eth_getLogs request (default 2000)
+const positionSourceOption = cli.string('--source') || process.env.POSITION_SOURCE || 'api';
+if (!POSITION_SOURCES.includes(positionSourceOption as PositionSource)) {
+  log.error(`❌ Invalid --source "${positionSourceOption}" (expected api, chain or both)`);
+  process.exit(1);
+}
+const positionSource = positionSourceOption as PositionSource;
+const chainScanStartBlock = cli.number('--from-block') ?? (process.env.CHAIN_SCAN_START_BLOCK ? Number(process.env.CHAIN_SCAN_START_BLOCK) : undefined);
+const chainScanChunkSize = Math.max(1, Number(process.env.CHAIN_SCAN_CHUNK) || 2000);
+const chainCursorOption = cli.string('--chain-cursor') || process.env.CHAIN_CURSOR_PATH;
+const chainCursorPath = chainCursorOption ? path.resolve(executionCwd, chainCursorOption) : undefined;
+
+// Claim policy (rules in src/services/policy-engine.ts, file format in src/config/claim-policy.ts)
+// --policy <path> : JSON policy: min payout, include/exclude lists, age windows, per-run cap (env CLAIM_POLICY_PATH).
+//                   An account's "claimPolicy" in the accounts file replaces it for that account.
+const policyOption = cli.string('--policy') || process.env.CLAIM_POLICY_PATH;
+let claimPolicy: ClaimPolicy = {};
+try {
+  if (policyOption) claimPolicy = loadClaimPolicy(policyOption, executionCwd);
+} catch (error: any) {
+  log.error(`❌ ${error.message}`);
+  process.exit(1);
+}
+
+// USDC sweep to a treasury after claiming (see src/services/sweep-planner.ts)
+// --sweep-to <address>     : treasury address (env SWEEP_TO_ADDRESS); must be listed in SWEEP_ALLOWED_DESTINATIONS
+// --sweep-threshold <usdc> : sweep only while the proxy holds more than this (env SWEEP_THRESHOLD_USDC, default 0)
+// --sweep-keep <usdc>      : minimum USDC always left in the proxy (env SWEEP_KEEP_USDC, default 0)
+// --sweep-percent <p>      : percentage of the excess over the keep amount to move (env SWEEP_PERCENT, default 100)
+// --sweep-with-claim       : append the transfer to the last claim transaction (env SWEEP_WITH_CLAIM=true)
+// SWEEP_ALLOWED_DESTINATIONS : comma-separated allowlist of treasury addresses
+const sweepTo = cli.string('--sweep-to') || process.env.SWEEP_TO_ADDRESS;
+const sweepAllowlist = (process.env.SWEEP_ALLOWED_DESTINATIONS || '').split(',').map(a => a.trim().toLowerCase()).filter(Boolean);
+// An unset SWEEP_PERCENT means 100; anything else must be a real percentage (0 must not become 100)
+const sweepPercentEnv = process.env.SWEEP_PERCENT?.trim();
+const sweepPercent = cli.number('--sweep-percent') ?? (sweepPercentEnv ? Number(sweepPercentEnv) : 100);
+if (!(sweepPercent >= 1 && sweepPercent <= 100)) {
+  log.error(`❌ Invalid sweep percentage ${cli.number('--sweep-percent') ?? sweepPercentEnv} (expected 1-100)`);
+  process.exit(1);
+}
+const sweepDefaults: Omit<SweepOptions, 'to'> = {
+  threshold: ethers.parseUnits(String(cli.number('--sweep-threshold') ?? (Number(process.env.SWEEP_THRESHOLD_USDC) || 0)), 6),
+  keep: ethers.parseUnits(String(cli.number('--sweep-keep') ?? (Number(process.env.SWEEP_KEEP_USDC) || 0)), 6),
+  percent: sweepPercent,
 };
+const sweepWithClaim = cli.flag('--sweep-with-claim') || process.env.SWEEP_WITH_CLAIM === 'true';
 
-const isTestMode = false; // Disabled test mode - always use mainnet
-const currentConfig = isTestMode ? config.testnet : config.mainnet;
-
-interface Position {
-  proxyWallet: string;
-  asset: string;
-  conditionId: string;
-  size: number;
-  avgPrice: number;
-  initialValue: number;
-  currentValue: number;
-  cashPnl: number;
-  percentPnl: number;
-  totalBought: number;
-  realizedPnl: number;
-  percentRealizedPnl: number;
-  curPrice: number;
-  redeemable: boolean;
-  mergeable: boolean;
-  title: string;
-  slug: string;
-  icon: string;
-  eventSlug: string;
-  outcome: string;
-  outcomeIndex: number;
-  oppositeOutcome: string;
-  oppositeAsset: string;
-  endDate: string;
-  negativeRisk: boolean;
-}
-
-class SimplePolymarketClaimer {
-  private provider: ethers.JsonRpcProvider;
-  private signer: ethers.Wallet;
-  private safe?: Safe;
-  private proxyAddress: string;
-  
-  constructor() {
-    const rpcUrl = process.env.RPC_URL;
-    const privateKey = process.env.PK; // renamed from PRIVATE_KEY
-    this.proxyAddress = process.env.POLYMARKET_PROXY_ADDRESS || '';
-    
-    if (!rpcUrl || !privateKey || !this.proxyAddress) {
-      throw new Error('Missing required environment variables: RPC_URL, PK, POLYMARKET_PROXY_ADDRESS');
-    }
-    
-    this.provider = new ethers.JsonRpcProvider(rpcUrl);
-    this.signer = new ethers.Wallet(privateKey, this.provider);
+// Neg-risk markets
+// --neg-risk-merge : when both YES and NO are held, merge the overlapping pairs into
+//                    USDC via the NegRiskAdapter before redeeming the rest (env NEG_RISK_MERGE=true)
+const negRiskMerge = cli.flag('--neg-risk-merge') || process.env.NEG_RISK_MERGE === 'true';
+
+// Merge mode
+// --merge : merge YES/NO pairs held in unresolved markets back into USDC (env MERGE_POSITIONS=true)
+const mergeMode = cli.flag('--merge') || process.env.MERGE_POSITIONS === 'true';
+
+// Gas strategy (fees in gwei, budget in MATIC)
+// --max-fee-gwei <n>          : cap on maxFeePerGas (env MAX_FEE_GWEI)
+// --max-priority-fee-gwei <n> : cap on maxPriorityFeePerGas (env MAX_PRIORITY_FEE_GWEI)
+// --defer-above-gwei <n>      : defer claims while the network fee is above this (env DEFER_ABOVE_GWEI)
+// --replace-after-blocks <n>  : speed up (same nonce, bumped fees) if not mined within n blocks (env REPLACE_AFTER_BLOCKS, default 20)
+// --gas-budget <matic>        : max MATIC spent on gas per run (env GAS_BUDGET_MATIC)
+// --max-gas-fraction <f>      : skip claims whose gas cost exceeds f x payout, e.g. 0.1 (env MAX_GAS_COST_FRACTION)
+// MAX_REPLACEMENTS (default 3), FEE_BUMP_PERCENT (default 15), MATIC_USD_PRICE (static price; default: the network's Chainlink feed)
+function readGwei(flag: string, envName: string): bigint | undefined {
+  const value = cli.number(flag) ?? (Number(process.env[envName]) || undefined);
+  return value !== undefined ? ethers.parseUnits(value.toString(), 'gwei') : undefined;
+}
+const gasBudgetMatic = cli.number('--gas-budget') ?? (Number(process.env.GAS_BUDGET_MATIC) || undefined);
+const gasOptions: GasOptions = {
+  maxFeePerGasCap: readGwei('--max-fee-gwei', 'MAX_FEE_GWEI'),
+  maxPriorityFeePerGasCap: readGwei('--max-priority-fee-gwei', 'MAX_PRIORITY_FEE_GWEI'),
+  deferAboveGasPrice: readGwei('--defer-above-gwei', 'DEFER_ABOVE_GWEI'),
+  replaceAfterBlocks: Math.floor(cli.number('--replace-after-blocks') || Number(process.env.REPLACE_AFTER_BLOCKS) || 20),
+  maxReplacements: Math.floor(Number(process.env.MAX_REPLACEMENTS) || 3),
+  bumpPercent: Math.max(10, Number(process.env.FEE_BUMP_PERCENT) || 15),
+  runBudget: gasBudgetMatic !== undefined ? ethers.parseEther(gasBudgetMatic.toString()) : undefined,
+  maxCostFraction: cli.number('--max-gas-fraction') ?? (Number(process.env.MAX_GAS_COST_FRACTION) || undefined),
+  maticUsdPrice: Number(process.env.MATIC_USD_PRICE) || undefined,
+};
+
+// Signer backend (see src/config/signer.ts): SIGNER_BACKEND=keystore|remote|raw, inferred when unset
+// --allow-raw-key : permit a plaintext private key in PK (env ALLOW_RAW_PRIVATE_KEY=true)
+const allowRawKey = cli.flag('--allow-raw-key') || process.env.ALLOW_RAW_PRIVATE_KEY === 'true';
+
+// Multi-account mode
+// --accounts <path> : JSON file listing accounts to claim for (env ACCOUNTS_CONFIG).
+// Without it, a single account is read from the signer env vars / POLYMARKET_PROXY_ADDRESS / RPC_URL.
+const accountsOption = cli.string('--accounts') || process.env.ACCOUNTS_CONFIG;
+const accountsConfigPath = accountsOption ? path.resolve(executionCwd, accountsOption) : undefined;
+// --account <name>  : only this account from the accounts file
+const accountFilter = cli.string('--account');
+
+// Notifications (sinks are configured with NOTIFY_* env vars, see src/config/notifications.ts)
+// --notify-digest         : send one summary message per run instead of one per event (env NOTIFY_DIGEST=true)
+// --low-balance <matic>   : notify when the EOA gas balance drops below this (env LOW_BALANCE_MATIC, default 0.05)
+const notifyDigest = cli.flag('--notify-digest') || process.env.NOTIFY_DIGEST === 'true';
+const lowBalanceMatic = cli.number('--low-balance') ?? (Number(process.env.LOW_BALANCE_MATIC) || 0.05);
+let notifier: Notifier;
+try {
+  notifier = new Notifier(loadNotificationSinks(process.env), {
+    digest: notifyDigest,
+    events: parseEventList(process.env.NOTIFY_EVENTS, 'NOTIFY_EVENTS'),
+  });
+} catch (error: any) {
+  log.error(`❌ ${error.message}`);
+  process.exit(1);
+}
+
+// Status endpoint (loop mode only)
+// --status-port <port> : serve /healthz, /status and /metrics on this port (env STATUS_PORT)
+// STATUS_HOST          : bind address (default 127.0.0.1; /status and /metrics have no auth, so set
+//                        0.0.0.0 only where the port is not reachable from outside, e.g. a Fly health check)
+const statusPort = cli.number('--status-port') ?? (Number(process.env.STATUS_PORT) || undefined);
+const statusHost = process.env.STATUS_HOST || '127.0.0.1';
+const metrics = createClaimerMetrics();
+
+// Network profile: chain, contract addresses and service URLs (see src/config/networks.ts)
+// --network polygon|amoy|custom : profile (env NETWORK, default polygon; TEST_MODE=true still selects amoy)
+// --network-config <path>       : JSON overrides of profile keys; required for custom (env NETWORK_CONFIG)
+// --fork <rpc-url>              : run against a local Anvil/Hardhat fork of the network instead of the
+//                                 accounts' RPC URLs (env FORK_RPC_URL); see docs/FORK.md
+const networkName = cli.string('--network') || process.env.NETWORK || (process.env.TEST_MODE === 'true' ? 'amoy' : 'polygon');
+let currentConfig: NetworkProfile;
+try {
+  const networkConfigOption = cli.string('--network-config') || process.env.NETWORK_CONFIG;
+  currentConfig = loadNetworkProfile(networkName, networkConfigOption, executionCwd);
+} catch (error: any) {
+  log.error(`❌ ${error.message}`);
+  process.exit(1);
+}
+const forkRpcUrl = cli.string('--fork') || process.env.FORK_RPC_URL;
+
+// Watch mode: claim right after markets resolve (see src/services/resolution-watcher.ts)
+// --watch                 : follow CTF ConditionResolution and NegRiskAdapter OutcomeReported events and claim the
+//                           resolved conditions the proxies hold; the full run still happens at start and every
+//                           --interval minutes (default 60) as a safety net for missed events
+// --ws-url <url>          : WebSocket RPC to subscribe over (env WS_RPC_URL); without it logs are polled
+// --watch-delay <seconds> : wait after a resolution before claiming, so the data API catches up and resolutions
+//                           close together share a run (env WATCH_CLAIM_DELAY_SECONDS, default 30)
+// WATCH_POLL_SECONDS      : log poll interval without a WebSocket (default 15)
+// WATCH_HEARTBEAT_SECONDS : WebSocket liveness check and catch-up poll interval (default 30)
+const wsUrl = cli.string('--ws-url') || process.env.WS_RPC_URL;
+const watchDelaySeconds = cli.number('--watch-delay') ?? Number(process.env.WATCH_CLAIM_DELAY_SECONDS ?? 30);
+const watchPollSeconds = Number(process.env.WATCH_POLL_SECONDS) || 15;
+const watchHeartbeatSeconds = Number(process.env.WATCH_HEARTBEAT_SECONDS) || 30;
+if (watchMode && !(watchDelaySeconds >= 0)) {
+  log.error(`❌ Invalid WATCH_CLAIM_DELAY_SECONDS "${process.env.WATCH_CLAIM_DELAY_SECONDS}"`);
+  process.exit(1);
+}
+if (wsUrl && !/^wss?:\/\//.test(wsUrl)) {
+  log.error(`❌ --ws-url must be a ws:// or wss:// URL, got "${wsUrl}"`);
+  process.exit(1);
+}
+
+// Run lock: one claiming run per account at a time, across cron, --loop and other machines
+// (see src/services/run-lock.ts). A run that finds its account locked is skipped with the holder logged.
+// --lock-url <url>       : shared lock for several instances: redis://, rediss:// or postgres:// (env RUN_LOCK_URL);
+//                          default: lock files in locks/ next to the ledger
+// --no-lock              : take no lock (env RUN_LOCK=false)
+// RUN_LOCK_STALE_SECONDS : a holder silent this long is presumed dead; the Redis key TTL (default 120)
+const lockUrl = cli.string('--lock-url') || process.env.RUN_LOCK_URL;
+const lockStaleSeconds = Number(process.env.RUN_LOCK_STALE_SECONDS) || 120;
+let runLock: RunLock | false = false;
+if (!cli.flag('--no-lock') && process.env.RUN_LOCK !== 'false') {
+  try {
+    runLock = createRunLock(lockUrl, path.resolve(path.dirname(ledgerPath), 'locks'), {
+      staleMs: lockStaleSeconds * 1000,
+      heartbeatMs: Math.min(15, lockStaleSeconds / 4) * 1000,
+    });
+  } catch (error: any) {
+    log.error(`❌ Invalid --lock-url: ${error.message}`);
+    process.exit(1);
   }
+}
+
+// EOA gas top-up from proxy funds (see src/services/gas-topup.ts)
+// --gas-topup                   : refill the signer EOA from the proxy when it runs low (env GAS_TOPUP=true)
+// GAS_TOPUP_BELOW_MATIC         : top up when the EOA holds less than this (default 0.1)
+// GAS_TOPUP_TARGET_MATIC        : fill the EOA up to this (default 0.5)
+// GAS_TOPUP_DAILY_MAX_MATIC     : MATIC moved to the EOA per rolling 24h (default 1)
+// GAS_TOPUP_SWAP_ROUTER         : Uniswap-V2-style router; when set, claimed USDC is swapped if the proxy lacks MATIC
+// GAS_TOPUP_SWAP_PATH           : comma-separated token path (default USDC.e,WMATIC)
+// GAS_TOPUP_SWAP_MAX_USDC       : USDC swapped per top-up (default 5)
+// GAS_TOPUP_SWAP_DAILY_MAX_USDC : USDC swapped per rolling 24h (default 10)
+// GAS_TOPUP_SWAP_SLIPPAGE_BPS   : accepted slippage on the swap quote (default 100 = 1%)
+function readTopUpOptions(): TopUpOptions | undefined {
+  if (!cli.flag('--gas-topup') && process.env.GAS_TOPUP !== 'true') return undefined;
+  const matic = (envName: string, fallback: number) => ethers.parseEther(String(Number(process.env[envName]) || fallback));
+  const usdc = (envName: string, fallback: number) => ethers.parseUnits(String(Number(process.env[envName]) || fallback), 6);
+  const options: TopUpOptions = {
+    below: matic('GAS_TOPUP_BELOW_MATIC', 0.1),
+    target: matic('GAS_TOPUP_TARGET_MATIC', 0.5),
+    dailyMaxMatic: matic('GAS_TOPUP_DAILY_MAX_MATIC', 1),
+  };
+  if (options.target <= options.below) throw new Error('GAS_TOPUP_TARGET_MATIC must be above GAS_TOPUP_BELOW_MATIC');
   
-  async initialize() {
-    console.log('🔧 Initializing claimer...');
-    
-    // Verify network
-    const network = await this.provider.getNetwork();
-    if (network.chainId !== BigInt(currentConfig.chainId)) {
-      throw new Error(`Wrong network. Expected chain ${currentConfig.chainId}, got ${network.chainId}`);
-    }
-    
-    // Verify contract addresses exist on-chain
-    const ctfCode = await this.provider.getCode(currentConfig.ctfAddress);
-    const usdcCode = await this.provider.getCode(currentConfig.usdcAddress);
-    
-    if (ctfCode === '0x' || ctfCode.length < 10) {
-      throw new Error(`CTF contract not found at ${currentConfig.ctfAddress}`);
-    }
-    if (usdcCode === '0x' || usdcCode.length < 10) {
-      throw new Error(`USDC contract not found at ${currentConfig.usdcAddress}`);
-    }
-    
-    // Verify proxy is a contract
-    const proxyCode = await this.provider.getCode(this.proxyAddress);
-    if (proxyCode === '0x' || proxyCode.length < 10) {
-      throw new Error(`No Safe contract found at ${this.proxyAddress}. Is this a valid Gnosis Safe proxy?`);
-    }
-    
-    // Try to initialize Safe - handle both standard Gnosis Safes and Polymarket custom proxies
-    const signerAddress = await this.signer.getAddress();
-    // Try to detect Safe type
-    
-    try {
-      // First try standard Gnosis Safe initialization
-      this.safe = await Safe.init({
-        provider: process.env.RPC_URL!,  // Use RPC URL string directly
-        signer: process.env.PK!,  // Use private key (PK) directly
-        safeAddress: this.proxyAddress,
-      });
-      
-      const owners = await this.safe.getOwners();
-      const threshold = await this.safe.getThreshold();
-      
-      if (!owners.includes(signerAddress)) {
-        throw new Error(`Signer ${signerAddress} is not an owner of Safe ${this.proxyAddress}`);
-      }
-      
-      console.log(`   Safe threshold: ${threshold}/${owners.length}`);
-      console.log(`   ✅ Standard Gnosis Safe detected`);
-      
-    } catch (error) {
-      console.log(`   ⚠️  Standard Safe init failed, trying Polymarket proxy mode...`);
-      console.log(`   Error: ${(error as any)?.shortMessage || (error as any)?.message || error}`);
-      
-      // Fallback: treat as Polymarket custom proxy
-      this.safe = undefined;
-      
-      // Basic validation that the proxy contract exists and signer can interact
-      try {
-        // Check if signer can call basic functions on the proxy
-        const balance = await this.provider.getBalance(this.proxyAddress);
-        console.log(`   ✅ Polymarket proxy detected (balance: ${ethers.formatEther(balance)} MATIC)`);
-        console.log(`   ✅ Signer address: ${signerAddress}`);
-      } catch (proxyError) {
-        throw new Error(`Failed to interact with proxy contract: ${(proxyError as any)?.message || proxyError}`);
-      }
+  const router = process.env.GAS_TOPUP_SWAP_ROUTER;
+  if (router) {
+    const swapPath = process.env.GAS_TOPUP_SWAP_PATH
+      ? process.env.GAS_TOPUP_SWAP_PATH.split(',').map(a => a.trim())
+      : [currentConfig.usdcAddress, currentConfig.wrappedNativeAddress];
+    if (!ethers.isAddress(router)) throw new Error(`Invalid GAS_TOPUP_SWAP_ROUTER ${router}`);
+    if (swapPath.length < 2 || !swapPath.every(a => ethers.isAddress(a))) throw new Error('GAS_TOPUP_SWAP_PATH must list at least two addresses');
+    if (swapPath[0].toLowerCase() !== currentConfig.usdcAddress.toLowerCase()) throw new Error('GAS_TOPUP_SWAP_PATH must start with the USDC address');
+    const slippageBps = Number(process.env.GAS_TOPUP_SWAP_SLIPPAGE_BPS || 100);
+    if (!(slippageBps >= 0 && slippageBps < 10_000)) throw new Error('GAS_TOPUP_SWAP_SLIPPAGE_BPS must be between 0 and 9999');
+    options.swap = {
+      router,
+      path: swapPath,
+      maxUsdc: usdc('GAS_TOPUP_SWAP_MAX_USDC', 5),
+      dailyMaxUsdc: usdc('GAS_TOPUP_SWAP_DAILY_MAX_USDC', 10),
+      slippageBps,
+    };
+  }
+  return options;
+}
+let topUpOptions: TopUpOptions | undefined;
+try {
+  topUpOptions = readTopUpOptions();
+} catch (error: any) {
+  log.error(`❌ ${error.message}`);
+  process.exit(1);
+}
+
+// Polymarket data API (see src/services/data-api.ts)
+// --api-url <url>      : base URL (env POLYMARKET_API_URL, default: the data API of the network)
+// DATA_API_TIMEOUT_MS  : per-request timeout (default 15000)
+// DATA_API_RETRIES     : retries on timeouts, 429 and 5xx, with exponential backoff (default 4)
+// DATA_API_PAGE_SIZE   : positions per page (default 500, the API's maximum)
+// DATA_API_MAX_PAGES   : pages read before the result is reported truncated (default 40)
+const dataApiUrl = cli.string('--api-url') || process.env.POLYMARKET_API_URL;
+const dataApiOptions: Omit<DataApiOptions, 'baseUrl'> = {
+  timeoutMs: Number(process.env.DATA_API_TIMEOUT_MS) || 15_000,
+  maxRetries: Math.max(0, Math.floor(Number(process.env.DATA_API_RETRIES ?? 4) || 0)),
+  pageSize: Math.min(500, Math.max(1, Math.floor(Number(process.env.DATA_API_PAGE_SIZE) || 500))),
+  maxPages: Math.max(1, Math.floor(Number(process.env.DATA_API_MAX_PAGES) || 40)),
+  baseDelayMs: 1000,
+};
+
+// Safes whose threshold needs more than the local signer (see src/services/safe-tx-service.ts)
+// --safe-tx-service <url> : Safe Transaction Service that claims are proposed to (env SAFE_TX_SERVICE_URL,
+//                           default: the Safe-hosted service of the network)
+// SAFE_TX_SERVICE_API_KEY : bearer token, for services that require one
+const safeTxServiceUrl = cli.string('--safe-tx-service') || process.env.SAFE_TX_SERVICE_URL || currentConfig.safeTxServiceUrl;
+const safeTxService = safeTxServiceUrl ? new SafeTxService(safeTxServiceUrl, process.env.SAFE_TX_SERVICE_API_KEY) : undefined;
+
+// Gasless execution through Polymarket's relayer (see src/services/relayer.ts); proxy wallets only
+// --gasless               : the relayer submits proxy transactions and pays their gas (env GASLESS=true)
+// --relayer-url <url>     : relayer endpoint (env RELAYER_URL, default: Polymarket's relayer of the network)
+// RELAYER_HUB_ADDRESS     : relay hub the proxy factory accepts relayed calls from (default: Polymarket's)
+// RELAYER_TIMEOUT_SECONDS : wait this long for the relayed transaction before reporting it pending (default 120)
+const relayerOptions: RelayerOptions | undefined = cli.flag('--gasless') || process.env.GASLESS === 'true'
+  ? {
+      url: cli.string('--relayer-url') || process.env.RELAYER_URL || currentConfig.relayerUrl || '',
+      relayHub: process.env.RELAYER_HUB_ADDRESS || currentConfig.relayHubAddress || '',
+      pollIntervalMs: 3000,
+      timeoutMs: (Number(process.env.RELAYER_TIMEOUT_SECONDS) || 120) * 1000,
     }
-    
-    console.log(`✅ Connected to ${isTestMode ? 'Mumbai Testnet' : 'Polygon Mainnet'}`);
-    console.log(`✅ Safe initialized: ${this.proxyAddress}`);
-    console.log(`✅ Signer: ${signerAddress}`);
-    console.log(`✅ Contracts verified`);
+  : undefined;
+if (relayerOptions && (!relayerOptions.url || !ethers.isAddress(relayerOptions.relayHub))) {
+  log.error(`❌ --gasless needs a relayer URL and a valid RELAYER_HUB_ADDRESS (got "${relayerOptions.url}", "${relayerOptions.relayHub}")`);
+  process.exit(1);
+}
+if (relayerOptions && forkRpcUrl) {
+  // The relayer would submit to the real network, not the fork
+  log.error('❌ --gasless cannot be used with --fork');
+  process.exit(1);
+}
+
+
+function checkSweepDestination(to: string, proxyAddress: string) {
+  if (!ethers.isAddress(to)) throw new Error(`Invalid sweep destination ${to}`);
+  if (to.toLowerCase() === proxyAddress.toLowerCase()) throw new Error('Sweep destination is the proxy wallet itself');
+  if (!sweepAllowlist.includes(to.toLowerCase())) {
+    throw new Error(`Sweep destination ${to} is not listed in SWEEP_ALLOWED_DESTINATIONS`);
+  }
+}
+
+// Claimer options for an account from the accounts file (its policy overrides the flags),
+// or for the single account from the environment
+function claimerOptions(account?: AccountConfig): ClaimerOptions {
+  const rpcUrl = forkRpcUrl || account?.rpcUrl || process.env.RPC_URL;
+  const proxyAddress = account ? account.proxyAddress : process.env.POLYMARKET_PROXY_ADDRESS || '';
+  if (!rpcUrl || !proxyAddress) {
+    throw new Error(account
+      ? `Account "${account.name}": missing RPC URL (rpcUrl or RPC_URL)`
+      : 'Missing required environment variables: RPC_URL, POLYMARKET_PROXY_ADDRESS');
   }
   
-  async fetchRedeemablePositions(): Promise<Position[]> {
-    console.log('🔍 Fetching redeemable positions...');
-    
-    // IMPORTANT: Positions are held in the proxy wallet, not the EOA
-    const url = `${currentConfig.polymarketApi}/positions`;
-    
-    try {
-      const response = await axios.get(url, {
-        params: {
-          user: this.proxyAddress.toLowerCase(),  // Use proxy address, not EOA!
-          // Remove redeemable filter - it's unreliable and sometimes excludes winning positions
-          limit: 500,  // Increase limit to get all positions
-        },
-        headers: {
-          'User-Agent': 'Polymarket-Auto-Claimer/1.0',
-          'Accept': 'application/json',
-        },
-      });
-      
-      const positions = response.data as Position[];
-      console.log(`📊 Total positions fetched: ${positions.length}`);
-      
-      // Filter for actually claimable positions
-      // Only claim winning positions where curPrice = 1 and redeemable = true
-      const claimable = positions.filter(pos => {
-        // Must be marked as redeemable
-        if (!pos.redeemable) return false;
-        
-        // Must have shares to redeem
-        if (pos.size <= 0) return false;
-        
-        // Must be a winning position (curPrice = 1)
-        // Losing positions (curPrice = 0) don't have USDC to claim
-        if (pos.curPrice !== 1) {
-          return false;
-        }
-        
-        // Optional: Filter for recently resolved markets (last 48 hours)
-        // Uncomment to enable date filtering:
-        /*
-        if (pos.endDate) {
-          const endDate = new Date(pos.endDate);
-          const now = new Date();
-          const hoursAgo = (now.getTime() - endDate.getTime()) / (1000 * 60 * 60);
-          
-          // Skip very old resolved markets
-          if (hoursAgo > 48) return false;
-        }
-        */
-        
-        return true;
-      });
-      
-      // Log statistics
-      const redeemableCount = positions.filter(p => p.redeemable).length;
-      const winningCount = positions.filter(p => p.curPrice === 1).length;
-      const losingCount = positions.filter(p => p.curPrice === 0).length;
-      
-      console.log(`📊 Found ${redeemableCount} positions marked redeemable`);
-      console.log(`📊 Found ${winningCount} winning positions (curPrice = 1)`);
-      console.log(`📊 Found ${losingCount} losing positions (curPrice = 0)`);
-      console.log(`✅ Found ${claimable.length} claimable winning positions`);
-      
-      return claimable;
-      
-    } catch (error) {
-      console.error('❌ Failed to fetch positions:', error);
-      return [];
-    }
+  const treasury = account?.policy?.sweepTo || sweepTo;
+  let signer: SignerConfig;
+  try {
+    signer = account ? account.signer : signerConfigFromEnv(process.env);
+    validateSignerConfig(signer, process.env, allowRawKey);
+    if (treasury) checkSweepDestination(treasury, proxyAddress);
+  } catch (error: any) {
+    throw new Error(account ? `Account "${account.name}": ${error.message}` : error.message);
   }
   
-  buildRedemptionCalldata(conditionId: string, outcomeIndex: number, negativeRisk: boolean, size: number): string {
-    if (negativeRisk) {
-      // For negative risk markets, use the Neg Risk Adapter
-      const negRiskInterface = new ethers.Interface([
-        'function redeemPositions(bytes32 conditionId, uint256[] amounts)',
-      ]);
-      
-      // For neg risk, we need to specify amounts for both outcomes
-      // We're redeeming the winning outcome, so set the appropriate amount
-      const amounts = outcomeIndex === 0 
-        ? [ethers.parseUnits(size.toString(), 6), 0n] // Yes outcome
-        : [0n, ethers.parseUnits(size.toString(), 6)]; // No outcome
-      
-      return negRiskInterface.encodeFunctionData('redeemPositions', [
-        conditionId,
-        amounts,
-      ]);
-    } else {
-      // Regular markets use CTF contract
-      const indexSet = 1n << BigInt(outcomeIndex);
-      
-      const ctfInterface = new ethers.Interface([
-        'function redeemPositions(address collateralToken, bytes32 parentCollectionId, bytes32 conditionId, uint256[] indexSets)',
-      ]);
-      
-      return ctfInterface.encodeFunctionData('redeemPositions', [
-        currentConfig.usdcAddress,
-        ethers.ZeroHash,
-        conditionId,
-        [indexSet],
-      ]);
-    }
+  const policy = account?.policy || {};
+  return {
+    name: account?.name,
+    proxyAddress,
+    signer,
+    rpcUrl,
+    forkRpcUrl,
+    network: currentConfig,
+    ledgerPath,
+    lock: runLock,
+    metrics,
+    notifier,
+    source: policy.source || positionSource,
+    dataApi: { ...dataApiOptions, ...(dataApiUrl ? { baseUrl: dataApiUrl } : {}) },
+    fromBlock: policy.fromBlock ?? chainScanStartBlock,
+    chainScanChunkSize,
+    chainCursorPath: (chainCursorPath && !account) ? chainCursorPath : path.resolve(repoRoot, 'claim-results', `chain-cursor-${proxyAddress.toLowerCase()}.json`),
+    claimPolicy: account?.claimPolicy || claimPolicy,
+    dryRun: !!policy.dryRun,
+    batchSize: policy.batchSize || maxBatchSize,
+    maxBatchGas: policy.maxBatchGas ? BigInt(Math.floor(policy.maxBatchGas)) : maxBatchGas,
+    gas: gasOptions,
+    lowBalanceMatic,
+    merge: mergeMode,
+    negRiskMerge,
+    safeTxService,
+    relayer: relayerOptions,
+    topUp: topUpOptions,
+    sweep: treasury ? { ...sweepDefaults, to: treasury } : undefined,
+    sweepWithClaim,
+  };
+}
+
+function printAccountsSummary(summaries: RunSummary[]) {
+  log.info('\n📊 Accounts Summary:');
+  for (const s of summaries) {
+    const merged = s.merged ? `, 🔗 ${s.mergedUsdc.toFixed(2)} USDC merged` : '';
+    const degraded = s.degraded ? ` ⚠️  degraded: ${s.degraded}` : '';
+    const status = s.error ? `🚨 ${s.error}` : s.skipped ? `⏭️  skipped: ${s.skipped}` : `✅ ${s.succeeded} claimed, ❌ ${s.failed} failed, 💰 ${s.payout.toFixed(2)} USDC${merged}${s.dryRun ? ' (dry run)' : ''}${degraded}`;
+    log.info(`   👤 ${s.account} (${s.proxyAddress.slice(0, 6)}...${s.proxyAddress.slice(-4)}): ${status}`);
+  }
+  const total = (key: 'succeeded' | 'failed' | 'payout' | 'transactions') => summaries.reduce((sum, s) => sum + s[key], 0);
+  log.info(`   Σ ${summaries.length} account(s), ${summaries.filter(s => s.error).length} errored | ✅ ${total('succeeded')} claimed | ❌ ${total('failed')} failed | 💰 ${total('payout').toFixed(2)} USDC | 🧾 ${total('transactions')} tx`);
+}
+
+// Accounts selected by --accounts / --account; undefined means the single account from the environment
+function selectAccounts(): AccountConfig[] | undefined {
+  if (!accountsConfigPath) {
+    if (accountFilter) throw new Error('--account needs an accounts file (--accounts or ACCOUNTS_CONFIG)');
+    return undefined;
+  }
+  const accounts = loadAccountsConfig(accountsConfigPath);
+  if (!accountFilter) return accounts;
+  const selected = accounts.filter(a => a.name === accountFilter);
+  if (selected.length === 0) {
+    throw new Error(`No account "${accountFilter}" in ${accountsConfigPath} (have ${accounts.map(a => a.name).join(', ')})`);
+  }
+  return selected;
+}
+
+// One claimer per account; a misconfigured account is reported and skipped
+async function buildClaimers() {
+  const claimers: SimplePolymarketClaimer[] = [];
+  const setupFailures: RunSummary[] = [];
+  const selected = selectAccounts();
+  if (!selected) {
+    claimers.push(new SimplePolymarketClaimer(claimerOptions()));
+    return { claimers, setupFailures };
   }
   
-  async claimViaGnosisSafe(position: Position): Promise<{success: boolean; txHash?: string; error?: string}> {
-    if (!this.safe) throw new Error('Safe not initialized');
-    
+  const accounts = selected.filter(a => a.policy?.enabled !== false);
+  log.info(`👥 Loaded ${accounts.length} account(s) from ${accountsConfigPath}`);
+  for (const account of accounts) {
     try {
-      // Build transaction data
-      const calldata = this.buildRedemptionCalldata(
-        position.conditionId,
-        position.outcomeIndex,
-        position.negativeRisk,
-        position.size
-      );
-      
-      // Determine target contract based on market type
-      const targetAddress = position.negativeRisk 
-        ? '0xd91E80cF2E7be2e162c6513ceD06f1dD0dA35296' // NEG_RISK_ADAPTER_ADDRESS
-        : currentConfig.ctfAddress;
-      
-      // Create Safe transaction
-      const safeTransaction = await this.safe.createTransaction({
-        transactions: [{
-          to: targetAddress,
-          value: '0',
-          data: calldata,
-          operation: 0, // Call
-        }],
-      });
-      
-      // Sign and execute via Safe SDK
-      const signedTx = await this.safe.signTransaction(safeTransaction);
-      const executeTxResponse = await this.safe.executeTransaction(signedTx);
-      
-      const txHash = (executeTxResponse as any).hash || 
-                    (executeTxResponse as any).transactionHash ||
-                    (executeTxResponse as any).safeTxHash;
-      
-      if (txHash) {
-        console.log(`   ✅ Claimed via Gnosis Safe! TX: ${txHash}`);
-        return { success: true, txHash };
-      } else {
-        return { success: true, txHash: undefined };
-      }
-      
+      claimers.push(new SimplePolymarketClaimer(claimerOptions(account)));
     } catch (error: any) {
-      const errorMsg = error.reason || error.message || 'Unknown error';
-      console.error(`   ❌ Gnosis Safe claim failed: ${errorMsg}`);
-      return { success: false, error: errorMsg };
+      log.error(`❌ ${error.message}`);
+      if (command === 'claim') await notifier.notify({ type: 'fatal_error', account: account.name, error: error.message });
+      setupFailures.push({
+        ...emptySummary(account.name, account.proxyAddress, isDryRun || !!account.policy?.dryRun),
+        error: error.message,
+      });
     }
   }
+  return { claimers, setupFailures };
+}
 
-  async claimViaPolymarketProxy(position: Position): Promise<{success: boolean; txHash?: string; error?: string}> {
+// Proxy addresses whose ledger records a ledger command shows; without any, the whole ledger
+function ledgerTargets(): Array<{ name: string; proxyAddress?: string }> {
+  const accounts = selectAccounts();
+  if (accounts) return accounts.map(a => ({ name: a.name, proxyAddress: a.proxyAddress }));
+  return [{ name: 'default', proxyAddress: process.env.POLYMARKET_PROXY_ADDRESS || undefined }];
+}
+
+function shortAddress(address: string): string {
+  return `${address.slice(0, 6)}...${address.slice(-4)}`;
+}
+
+// Command result: JSON on stdout with --json, the human-readable form otherwise
+function output(result: unknown, pretty: () => void) {
+  if (jsonOutput) {
+    process.stdout.write(`${JSON.stringify(result, null, 2)}\n`);
+  } else {
+    pretty();
+  }
+}
+
+const STATUS_ICONS: Record<string, string> = { confirmed: '✅', pending: '⏳', failed: '❌' };
+
+async function verifyCommand() {
+  const { claimers, setupFailures } = await buildClaimers();
+  const results: Array<Partial<VerifyReport> & { account: string; ok: boolean; error?: string }> = setupFailures.map(f => ({
+    account: f.account,
+    proxyAddress: f.proxyAddress,
+    ok: false,
+    error: f.error,
+  }));
+  for (const claimer of claimers) {
     try {
-      console.log('\n   🔍 Using Polymarket Proxy Wallet Factory');
-      
-      // Check if EOA has gas funds first
-      const signerAddress = await this.signer.getAddress();
-      const balance = await this.provider.getBalance(signerAddress);
-      const balanceEth = ethers.formatEther(balance);
-      
-      console.log(`      - EOA MATIC balance: ${balanceEth}`);
-      
-      if (balance === 0n) {
-        console.log('   ⚠️  No MATIC for gas fees in EOA');
-        console.log('   💡 You need to add some MATIC to your EOA address for gas fees');
-        console.log(`   💡 Send 0.01-0.1 MATIC to: ${signerAddress}`);
-        return { 
-          success: false, 
-          error: `No MATIC for gas fees. Send MATIC to ${signerAddress}` 
-        };
-      }
-      
-      // Use Polymarket's Proxy Wallet Factory pattern
-      const PROXY_WALLET_FACTORY = "0xaB45c5A4B0c941a2F231C04C3f49182e1A254052";
-      const NEG_RISK_ADAPTER = "0xd91E80cF2E7be2e162c6513ceD06f1dD0dA35296";
-      
-      // Build redemption calldata
-      const calldata = this.buildRedemptionCalldata(
-        position.conditionId,
-        position.outcomeIndex,
-        position.negativeRisk,
-        position.size
-      );
-      
-      // Determine target contract based on market type
-      const targetAddress = position.negativeRisk ? NEG_RISK_ADAPTER : currentConfig.ctfAddress;
-      const marketType = position.negativeRisk ? 'Neg Risk Adapter' : 'CTF';
-      
-      console.log('\n   📝 Creating Proxy Factory transaction...');
-      console.log(`      - Proxy Wallet (Safe): ${this.proxyAddress}`);
-      console.log(`      - Target (${marketType}): ${targetAddress}`);
-      console.log(`      - Market Type: ${position.negativeRisk ? 'Negative Risk' : 'Regular'}`);
-      console.log(`      - Signer (EOA): ${signerAddress} pays gas`);
-      
-      // Proxy Factory ABI (minimal)
-      const proxyFactoryAbi = [
-        {
-          "constant": false,
-          "inputs": [
-            {
-              "components": [
-                { "name": "typeCode", "type": "uint8" },
-                { "name": "to", "type": "address" },
-                { "name": "value", "type": "uint256" },
-                { "name": "data", "type": "bytes" }
-              ],
-              "name": "calls",
-              "type": "tuple[]"
-            }
-          ],
-          "name": "proxy",
-          "outputs": [{ "name": "returnValues", "type": "bytes[]" }],
-          "payable": true,
-          "stateMutability": "payable",
-          "type": "function"
-        }
-      ];
-      
-      const factory = new ethers.Contract(PROXY_WALLET_FACTORY, proxyFactoryAbi, this.signer);
-      
-      // Build the proxy transaction
-      const proxyTxn = {
-        to: targetAddress,
-        typeCode: 1, // Call type
-        data: calldata,
-        value: 0,
-      };
-      
-      console.log(`   📡 Sending transaction through Proxy Factory...`);
-      const tx = await factory.proxy([proxyTxn]);
-      
-      console.log(`   📡 Transaction sent: ${tx.hash}`);
-      console.log(`   ⏳ Waiting for confirmation...`);
-      
-      const receipt = await tx.wait();
-      
-      if (!receipt) {
-        console.log(`   ❌ Transaction receipt is null`);
-        return { success: false, error: 'Transaction receipt is null' };
-      }
-      
-      if (receipt.status === 0) {
-        console.log(`   ❌ Transaction reverted!`);
-        return { success: false, error: 'Transaction reverted', txHash: tx.hash };
-      }
-      
-      console.log(`   ✅ Claimed successfully! TX: ${tx.hash}`);
-      console.log(`   ✅ Confirmed in block ${receipt.blockNumber}`);
-      
-      return { success: true, txHash: tx.hash };
-      
+      results.push({ ok: true, ...await claimer.verify() });
     } catch (error: any) {
-      const errorMsg = error.reason || error.message || 'Unknown error';
-      console.error(`   ❌ Proxy factory claim failed: ${errorMsg}`);
-      
-      if (errorMsg.includes('insufficient funds')) {
-        console.log('   💡 Add MATIC to your EOA for gas fees');
-        console.log(`   💡 Send 0.01-0.1 MATIC to: ${await this.signer.getAddress()}`);
-      }
-      
-      return { success: false, error: errorMsg };
+      const message: string = error?.shortMessage || error?.message || String(error);
+      log.error(`❌ ${claimer.name}: ${message}`, { error: message });
+      results.push({ account: claimer.name, proxyAddress: claimer.proxyAddress, ok: false, error: message });
     }
   }
   
-  async claimPosition(position: Position, dryRun: boolean = false): Promise<{success: boolean; txHash?: string; error?: string}> {
-    console.log(`\n💰 ${dryRun ? '[DRY RUN] Would claim' : 'Claiming'} position in market: ${position.title}`);
-    console.log(`   Outcome: ${position.outcome}`);
-    console.log(`   Size: ${position.size} shares`);
-    console.log(`   Condition ID: ${position.conditionId}`);
-    console.log(`   Outcome Index: ${position.outcomeIndex}`);
-    
-    if (dryRun) {
-      console.log(`   ✅ [DRY RUN] Would redeem position with:`);
-      console.log(`      - Expected payout: ${position.size} USDC`);
-      return { success: true, txHash: 'DRY_RUN' };
+  output(results, () => {
+    console.log('\n🩺 Verification:');
+    for (const r of results) {
+      const where = r.proxyAddress ? ` (${shortAddress(r.proxyAddress)})` : '';
+      if (!r.ok) {
+        console.log(`   ❌ ${r.account}${where}: ${r.error}`);
+        continue;
+      }
+      const mode = r.mode === 'safe' ? `Gnosis Safe, threshold ${r.threshold}/${r.owners!.length}` : 'Polymarket proxy';
+      console.log(`   ✅ ${r.account}${where}: chain ${r.chainId}, ${mode}, signer ${r.signer} (${r.signerBackend})`);
     }
-    
-    // Handle both standard Safe and Polymarket proxy modes
-    if (this.safe) {
-      return this.claimViaGnosisSafe(position);
-    } else {
-      return this.claimViaPolymarketProxy(position);
+  });
+  if (results.some(r => !r.ok)) process.exitCode = 1;
+}
+
+async function balancesCommand() {
+  const { claimers, setupFailures } = await buildClaimers();
+  const results: object[] = setupFailures.map(f => ({ account: f.account, error: f.error }));
+  for (const claimer of claimers) {
+    try {
+      results.push(await claimer.balances());
+    } catch (error: any) {
+      const message: string = error?.shortMessage || error?.message || String(error);
+      log.error(`❌ ${claimer.name}: ${message}`, { error: message });
+      results.push({ account: claimer.name, error: message });
     }
   }
+  // balances() already logs the human-readable form
+  output(results, () => {});
+  if (results.some(r => 'error' in r)) process.exitCode = 1;
+}
 
-  async run(dryRun: boolean = false) {
+async function positionsCommand() {
+  const { claimers, setupFailures } = await buildClaimers();
+  const results: object[] = setupFailures.map(f => ({ account: f.account, error: f.error }));
+  for (const claimer of claimers) {
     try {
-      await this.initialize();
-      
-      const positions = await this.fetchRedeemablePositions();
-      
-      if (positions.length === 0) {
-        console.log('\n✨ No positions to claim');
-        return;
+      const discovery = await claimer.discover();
+      results.push({
+        account: discovery.account,
+        proxyAddress: discovery.proxyAddress,
+        claimable: discovery.positions.map(p => ({
+          conditionId: p.conditionId,
+          outcomeIndex: p.outcomeIndex,
+          title: p.title,
+          outcome: p.outcome,
+          size: p.size,
+          negativeRisk: p.negativeRisk,
+          payout: expectedPayoutUsdc(p),
+          rule: discovery.policy.find(d => d.conditionId === p.conditionId && d.outcomeIndex === p.outcomeIndex)?.rule,
+        })),
+        // Empty or unresolved positions (per the data API) and losing ones (per the chain) are only listed with --all
+        filtered: cli.flag('--all') ? discovery.filtered : discovery.filtered.filter(f => f.stage !== 'api' && !f.reason.includes('losing outcome')),
+        degraded: discovery.degraded,
+      });
+    } catch (error: any) {
+      const message: string = error?.shortMessage || error?.message || String(error);
+      log.error(`❌ ${claimer.name}: ${message}`, { error: message });
+      results.push({ account: claimer.name, error: message });
+    }
+  }
+  
+  output(results, () => {
+    for (const r of results as any[]) {
+      if (r.error) {
+        console.log(`\n👤 ${r.account}: 🚨 ${r.error}`);
+        continue;
       }
-      
-      if (dryRun) {
-        console.log(`\n🔍 DRY RUN MODE - Found ${positions.length} claimable positions:`);
-        console.log('=' .repeat(60));
-        
-        let totalValue = 0;
-        for (const position of positions) {
-          totalValue += position.size;
-        }
-        
-        console.log(`\n📊 Total claimable value: ${totalValue.toFixed(2)} USDC`);
-      } else {
-        console.log(`\n🚀 Starting to claim ${positions.length} positions...`);
+      console.log(`\n👤 ${r.account} (${shortAddress(r.proxyAddress)}): ${r.claimable.length} claimable, ${r.filtered.length} filtered`);
+      if (r.degraded) console.log(`   ⚠️  Degraded: ${r.degraded}`);
+      for (const p of r.claimable) {
+        console.log(`   ✅ ${p.title} (${p.outcome}): ${p.payout.toFixed(2)} USDC${p.negativeRisk ? ' [neg-risk]' : ''}`);
       }
-      
-      let successCount = 0;
-      let failCount = 0;
-      
-      for (const position of positions) {
-        const result = await this.claimPosition(position, dryRun);
-        
-        if (result.success) {
-          successCount++;
-        } else {
-          failCount++;
-        }
-        
-        // Small delay between claims (skip in dry run)
-        if (!dryRun) {
-          await new Promise(resolve => setTimeout(resolve, 2000));
-        }
+      for (const f of r.filtered) {
+        console.log(`   ⏭️  ${f.title} [outcome ${f.outcomeIndex}]: ${f.reason}`);
       }
-      
-      console.log('\n📈 Summary:');
-      if (dryRun) {
-        console.log(`   🔍 [DRY RUN] Would claim: ${successCount} positions`);
-        const totalValue = positions.reduce((sum, pos) => sum + pos.size, 0);
-        console.log(`   💰 Total value: ${totalValue.toFixed(2)} USDC`);
-      } else {
-        console.log(`   ✅ Successful: ${successCount}`);
-        console.log(`   ❌ Failed: ${failCount}`);
-        console.log(`   📊 Total: ${positions.length}`);
+    }
+  });
+  if (results.some((r: any) => r.error || r.degraded)) process.exitCode = 1;
+}
+
+async function historyCommand() {
+  const ledger = new ClaimLedger(ledgerPath);
+  const status = cli.string('--status');
+  const limit = Math.floor(cli.number('--limit') || 50);
+  const entries = ledgerTargets()
+    .flatMap(target => ledger.history(target.proxyAddress).map(entry => ({ account: target.name, ...entry })))
+    .filter(entry => !status || entry.status === status)
+    .sort((a, b) => a.timestamp.localeCompare(b.timestamp))
+    .slice(-limit);
+  
+  output(entries, () => {
+    if (entries.length === 0) {
+      console.log(`📒 No ledger entries${status ? ` with status ${status}` : ''} in ${ledger.path}`);
+      return;
+    }
+    for (const e of entries) {
+      const payout = e.payout ?? (e.expectedPayout !== undefined ? e.expectedPayout.toFixed(2) : undefined);
+      const details = [payout !== undefined ? `${payout} USDC` : '', e.txHash || '', e.error || ''].filter(Boolean).join(' | ');
+      console.log(`${e.timestamp} ${STATUS_ICONS[e.status]} ${e.status.padEnd(9)} ${e.account}: ${e.title || e.conditionId} [outcome ${e.outcomeIndex}]${details ? ` - ${details}` : ''}`);
+    }
+  });
+}
+
+async function statusCommand() {
+  const ledger = new ClaimLedger(ledgerPath);
+  const results = ledgerTargets().map(target => {
+    const entries = ledger.all().filter(e => !target.proxyAddress || e.proxyAddress.toLowerCase() === target.proxyAddress.toLowerCase());
+    const count = (status: string) => entries.filter(e => e.status === status).length;
+    return {
+      account: target.name,
+      proxyAddress: target.proxyAddress,
+      confirmed: count('confirmed'),
+      pending: count('pending'),
+      failed: count('failed'),
+      confirmedUsdc: entries
+        .filter(e => e.status === 'confirmed')
+        .reduce((sum, e) => sum + (e.payout !== undefined ? Number(e.payout) : e.expectedPayout || 0), 0),
+      lastActivity: entries.map(e => e.timestamp).sort().pop(),
+      pendingClaims: entries.filter(e => e.status === 'pending'),
+    };
+  });
+  
+  output({ ledger: ledger.path, accounts: results }, () => {
+    console.log(`📒 Claim ledger: ${ledger.path}`);
+    for (const r of results) {
+      const where = r.proxyAddress ? ` (${shortAddress(r.proxyAddress)})` : ' (all proxies)';
+      console.log(`\n👤 ${r.account}${where}`);
+      console.log(`   ✅ Confirmed: ${r.confirmed} (${r.confirmedUsdc.toFixed(2)} USDC)`);
+      console.log(`   ⏳ Pending: ${r.pending}`);
+      console.log(`   ❌ Failed (retried next run): ${r.failed}`);
+      console.log(`   🕒 Last activity: ${r.lastActivity || 'never'}`);
+      for (const e of r.pendingClaims) {
+        console.log(`      ⏳ ${e.title || e.conditionId} [outcome ${e.outcomeIndex}] ${e.txHash || '(not broadcast)'}`);
       }
-      
-    } catch (error) {
-      console.error('\n🚨 Fatal error:', error);
-      process.exit(1);
     }
-  }
+  });
+}
+
+// RPC the resolution watcher reads logs from: the fork, RPC_URL or the first account's
+function watchRpcUrl(): string {
+  const rpcUrl = forkRpcUrl || process.env.RPC_URL || selectAccounts()?.find(a => a.rpcUrl)?.rpcUrl;
+  if (!rpcUrl) throw new Error('--watch needs an RPC URL (RPC_URL or an account rpcUrl)');
+  return rpcUrl;
+}
+
+// --watch: claim resolved conditions the accounts hold, after --watch-delay; the full run
+// repeats every interval. Triggered and full runs share one queue, so they never overlap.
+async function watchResolutions(claimers: SimplePolymarketClaimer[], loop: {
+  next: () => number;
+  runOnce: (iteration: number, conditionIds?: string[]) => Promise<RunSummary[]>;
+  shouldExit: () => boolean;
+  sleep: (ms: number) => Promise<void>;
+}) {
+  let queue: Promise<unknown> = Promise.resolve();
+  const enqueue = (task: () => Promise<unknown>) => {
+    queue = queue.then(task).catch(error => log.error(`Iteration error: ${error?.message || error}`, { error: error?.message || String(error) }));
+  };
   
-  async getBalances() {
-    const usdcInterface = new ethers.Interface([
-      'function balanceOf(address) view returns (uint256)',
-    ]);
-    
-    const usdcContract = new ethers.Contract(
-      currentConfig.usdcAddress,
-      usdcInterface,
-      this.provider
-    );
-    
-    // Get USDC balance in Safe
-    const balance = await usdcContract.balanceOf(this.proxyAddress);
-    const formattedBalance = ethers.formatUnits(balance, 6);
-    
-    // Get MATIC balance in MetaMask/EOA (pays for gas)
-    const signerAddress = await this.signer.getAddress();
-    const eoaMaticBalance = await this.provider.getBalance(signerAddress);
-    const formattedEoaMatic = ethers.formatEther(eoaMaticBalance);
-    
-    // Get MATIC balance in Safe (informational only)
-    const safeMaticBalance = await this.provider.getBalance(this.proxyAddress);
-    const formattedSafeMatic = ethers.formatEther(safeMaticBalance);
-    
-    console.log(`\n💰 Wallet Balances:`);
-    console.log(`   📱 MetaMask/EOA (${signerAddress.slice(0, 6)}...${signerAddress.slice(-4)}):`);
-    console.log(`      ⛽ MATIC: ${formattedEoaMatic} (pays gas fees)`);
-    console.log(`   🔐 Safe (${this.proxyAddress.slice(0, 6)}...${this.proxyAddress.slice(-4)}):`);
-    console.log(`      💵 USDC: ${formattedBalance}`);
-    console.log(`      ⛽ MATIC: ${formattedSafeMatic} (not needed for claims)`);
+  const resolved = new Set<string>();
+  let claimTimer: NodeJS.Timeout | undefined;
+  const claimResolved = () => {
+    claimTimer = undefined;
+    const conditionIds = [...resolved];
+    resolved.clear();
+    if (!loop.shouldExit()) enqueue(() => loop.runOnce(loop.next(), conditionIds));
+  };
+  
+  const watcher = new ResolutionWatcher(new ethers.JsonRpcProvider(watchRpcUrl(), currentConfig.chainId, { staticNetwork: true }), {
+    chainId: currentConfig.chainId,
+    ctfAddress: currentConfig.ctfAddress,
+    negRiskAdapterAddress: currentConfig.negRiskAdapterAddress,
+    wsUrl,
+    pollIntervalMs: watchPollSeconds * 1000,
+    heartbeatMs: watchHeartbeatSeconds * 1000,
+    chunkSize: chainScanChunkSize,
+    cursorPath: path.resolve(path.dirname(ledgerPath), 'watch-cursor.json'),
+  }, ({ conditionId, source, txHash }) => {
+    // Most resolutions are of markets none of the proxies trade
+    const holders = claimers.filter(claimer => claimer.holds(conditionId));
+    if (holders.length === 0 || resolved.has(conditionId)) return;
+    log.info(`🔔 Market resolved (${source}): ${conditionId}, held by ${holders.map(c => c.name).join(', ')}; claiming in ${watchDelaySeconds}s`, { conditionId, txHash });
+    resolved.add(conditionId);
+    claimTimer ??= setTimeout(claimResolved, watchDelaySeconds * 1000);
+  });
+  await watcher.start();
+  
+  const intervalMs = (intervalMinutes || 60) * 60 * 1000;
+  while (!loop.shouldExit()) {
+    await loop.sleep(intervalMs);
+    if (loop.shouldExit()) break;
+    enqueue(() => loop.runOnce(loop.next()));
   }
+  
+  clearTimeout(claimTimer);
+  await watcher.stop();
+  await queue; // let a run in progress finish
 }
 
-// Main execution
-async function main() {
-  console.log('🎯 Polymarket Auto-Claimer');
+async function claimCommand() {
+  log.info('🎯 Polymarket Auto-Claimer');
 
   if (isDryRun) {
-    console.log('🔍 DRY RUN MODE ENABLED');
+    log.info('🔍 DRY RUN MODE ENABLED');
+  }
+  if (mergeMode) {
+    log.info('🔗 MERGE MODE ENABLED');
+  }
+  if (notifier.enabled) {
+    log.info(`🔔 Notifications: ${notifier.sinkNames.join(', ')}${notifyDigest ? ' (digest per run)' : ''}`);
   }
-  if (loopMode) {
-    console.log(`🔁 LOOP MODE ENABLED (every ${intervalMinutes} minute${intervalMinutes === 1 ? '' : 's'})`);
+  if (watchMode) {
+    log.info(`👀 WATCH MODE ENABLED (claims ${watchDelaySeconds}s after a resolution; full run every ${intervalMinutes || 60} minutes)`);
+  } else if (loopMode) {
+    log.info(`🔁 LOOP MODE ENABLED (every ${intervalMinutes} minute${intervalMinutes === 1 ? '' : 's'})`);
   }
 
-  console.log('='.repeat(40));
+  log.info('='.repeat(40));
 
-  const claimer = new SimplePolymarketClaimer();
+  const { claimers, setupFailures } = await buildClaimers();
+  const multiAccount = !!accountsConfigPath;
 
   // Graceful shutdown controls
   let shouldExit = false;
+  let wakeUp = () => {};
   const shutdown = (signal: string) => {
-    console.log(`\n🛑 Received ${signal}, will exit after current iteration.`);
+    log.info(`\n🛑 Received ${signal}, will exit after current iteration.`);
     shouldExit = true;
+    wakeUp();
   };
   process.on('SIGINT', () => shutdown('SIGINT'));
   process.on('SIGTERM', () => shutdown('SIGTERM'));
 
-  const runOnce = async (iteration: number) => {
-    console.log(`\n▶️  Iteration #${iteration} @ ${new Date().toISOString()}`);
-    try {
-      await claimer.run(isDryRun);
-      await claimer.getBalances();
-      if (!isDryRun) {
-        await claimer.getBalances();
+  // Health/status/metrics endpoint, only meaningful for a long-running loop
+  let statusServer: StatusServer | undefined;
+  if (statusPort && !loopMode && !watchMode) {
+    log.warn('⚠️  --status-port is only used in loop mode; ignoring.');
+  } else if (statusPort) {
+    statusServer = new StatusServer({
+      port: statusPort,
+      host: statusHost,
+      intervalMs: (intervalMinutes || 60) * 60 * 1000,
+      metrics,
+      pendingClaims: () => claimers.flatMap(claimer => claimer.pendingClaims()),
+    });
+    await statusServer.start();
+    log.info(`📡 Status endpoint on http://${statusHost}:${statusPort} (/healthz, /status, /metrics)`);
+  }
+
+  // With conditionIds (watch mode), only the accounts holding them claim, and only those conditions
+  const runOnce = (iteration: number, conditionIds?: string[]) => log.withContext({ runId: newRunId(), iteration }, () => runIteration(iteration, conditionIds));
+  const runIteration = async (iteration: number, conditionIds?: string[]) => {
+    const startedAt = new Date();
+    log.info(`\n▶️  Iteration #${iteration} @ ${startedAt.toISOString()}${conditionIds ? ` (${conditionIds.length} resolved condition(s))` : ''}`);
+    const summaries: RunSummary[] = conditionIds ? [] : [...setupFailures];
+    const balances: object[] = [];
+    const selected = conditionIds ? claimers.filter(claimer => conditionIds.some(id => claimer.holds(id))) : claimers;
+    for (const claimer of selected) {
+      if (multiAccount) {
+        log.info(`\n👤 Account: ${claimer.name}`);
+        log.info('-'.repeat(40));
+      }
+      const summary = conditionIds ? await claimer.claimConditions(conditionIds, isDryRun) : await claimer.run(isDryRun);
+      summaries.push(summary);
+      try {
+        let snapshot = await claimer.balances();
+        if (!isDryRun) {
+          snapshot = await claimer.balances();
+        }
+        balances.push(snapshot);
+      } catch (err) {
+        log.error(`Iteration error: ${(err as any)?.message || err}`, { error: (err as any)?.message || String(err) });
+      }
+    }
+    if (multiAccount) printAccountsSummary(summaries);
+    await notifier.flush();
+    
+    const finishedAt = new Date();
+    const degraded = summaries.some(s => s.degraded);
+    const ok = !summaries.some(s => s.error) && !degraded;
+    metrics.observe('claimer_iteration_duration_seconds', {}, (finishedAt.getTime() - startedAt.getTime()) / 1000);
+    if (ok) metrics.set('claimer_last_success_timestamp_seconds', {}, Math.floor(finishedAt.getTime() / 1000));
+    const report = {
+      runId: log.currentContext().runId,
+      iteration,
+      startedAt: startedAt.toISOString(),
+      finishedAt: finishedAt.toISOString(),
+      durationMs: finishedAt.getTime() - startedAt.getTime(),
+      ok,
+      degraded,
+      summaries,
+      balances,
+    };
+    statusServer?.recordIteration(report);
+    // --json: one report per iteration (one JSON document per line in loop mode)
+    if (jsonOutput) process.stdout.write(`${JSON.stringify(report, null, loopMode ? 0 : 2)}\n`);
+    if (reportPath) {
+      try {
+        fs.mkdirSync(path.dirname(reportPath), { recursive: true });
+        fs.writeFileSync(reportPath, JSON.stringify(report, null, 2));
+        log.info(`📝 Run report written to ${reportPath}`);
+      } catch (error: any) {
+        log.warn(`⚠️  Could not write run report to ${reportPath}: ${error.message}`);
       }
-    } catch (err) {
-      console.error('Iteration error:', err);
     }
+    return summaries;
   };
 
   let iteration = 1;
-  await runOnce(iteration);
-  if (!loopMode) return; // single-run mode
+  const firstSummaries = await runOnce(iteration);
+  if (watchMode) {
+    await watchResolutions(claimers, {
+      next: () => ++iteration,
+      runOnce,
+      shouldExit: () => shouldExit,
+      sleep: ms => new Promise<void>(resolve => {
+        const timer = setTimeout(resolve, ms);
+        wakeUp = () => {
+          clearTimeout(timer);
+          resolve();
+        };
+      }),
+    });
+    await statusServer?.stop();
+    log.info('👋 Exiting watch mode. Bye.');
+    return;
+  }
+  if (!loopMode) {
+    // single-run mode: non-zero exit if any account hit a fatal error or couldn't discover its positions
+    if (firstSummaries.some(s => s.error || s.degraded)) process.exitCode = 1;
+    return;
+  }
 
   // Drift-compensated scheduling
   const intervalMs = (intervalMinutes || 60) * 60 * 1000;
@@ -691,7 +954,7 @@ async function main() {
     let delay = nextPlanned - now;
     if (delay < 0) delay = 0; // if we overran, run immediately
     const jitter = Math.floor(Math.random() * 3000); // 0–3s jitter
-    console.log(`⏱ Waiting ${(delay / 1000).toFixed(0)}s + ${jitter}ms jitter until next iteration...`);
+    log.info(`⏱ Waiting ${(delay / 1000).toFixed(0)}s + ${jitter}ms jitter until next iteration...`);
     await new Promise(r => setTimeout(r, delay + jitter));
     if (shouldExit) break;
     iteration += 1;
@@ -699,16 +962,36 @@ async function main() {
     nextPlanned += intervalMs; // schedule the subsequent run based on original cadence
   }
 
-  console.log('👋 Exiting loop mode. Bye.');
+  await statusServer?.stop();
+  log.info('👋 Exiting loop mode. Bye.');
+}
+
+// Main execution
+async function main() {
+  switch (command) {
+    case 'claim': return claimCommand();
+    case 'verify': return verifyCommand();
+    case 'balances': return balancesCommand();
+    case 'positions': return positionsCommand();
+    case 'history': return historyCommand();
+    case 'status': return statusCommand();
+  }
 }
 
 // Handle direct execution
 if (require.main === module) {
-  main().catch(error => {
-    console.error('Fatal error:', error);
+  main().catch(async error => {
+    log.error(`Fatal error: ${error?.message || error}`, { error: error?.message || String(error) });
+    if (error?.stack) log.debug(error.stack);
+    if (command === 'claim') {
+      await notifier.notify({ type: 'fatal_error', account: 'default', error: error?.message || String(error) });
+      await notifier.flush();
+    }
     process.exit(1);
   });
 }
 
 export default SimplePolymarketClaimer;
-export { SimplePolymarketClaimer, Position };
\ No newline at end of file
+export { SimplePolymarketClaimer, RunSummary };
+export { ClaimResult } from './claimer';
+export { Position } from './types/position';
\ No newline at end of file
@@ -0,0 +1,38 @@
+// On-chain claimability of a position, read from the CTF contract
+export interface OnChainState {
+  balance: bigint;           // ERC1155 balance of the position token held by the proxy
+  payoutNumerator: bigint;   // payoutNumerators(conditionId, outcomeIndex)
+  payoutDenominator: bigint; // payoutDenominator(conditionId); 0 while unresolved
+  expectedPayout: bigint;    // balance * numerator / denominator, in USDC base units (6 decimals)
+}
+
+// Position as returned by the Polymarket data API (`/positions`), optionally
+// enriched with state read from the CTF contract.
+export interface Position {
+  proxyWallet: string;
+  asset: string;
+  conditionId: string;
+  size: number;
+  avgPrice: number;
+  initialValue: number;
+  currentValue: number;
+  cashPnl: number;
+  percentPnl: number;
+  totalBought: number;
+  realizedPnl: number;
+  percentRealizedPnl: number;
+  curPrice: number;
+  redeemable: boolean;
+  mergeable: boolean;
+  title: string;
+  slug: string;
+  icon: string;
+  eventSlug: string;
+  outcome: string;
+  outcomeIndex: number;
+  oppositeOutcome: string;
+  oppositeAsset: string;
+  endDate: string;
+  negativeRisk: boolean;
+  onChain?: OnChainState;
+}
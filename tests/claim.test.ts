@@ -0,0 +1,225 @@
+import assert from 'node:assert/strict';
+import fs from 'fs';
+import path from 'path';
+import { after, before, describe, it } from 'node:test';
+import { ethers } from 'ethers';
+import { ClaimLedger } from '../src/services/claim-ledger';
+import { LocalChain, Market, createMarket, createProxyWallet, createSafe, gasCappedProvider, resolveMarket, startChain } from './helpers/chain';
+import { FakeDataApi, apiPosition, startDataApi } from './helpers/data-api';
+import { createClaimer, tempLedger } from './helpers/claimer';
+import { ClaimConfirmedEvent, ClaimSubmittedEvent, FileRunLock, Position } from '../src';
+
+// Resolved market won by `wallet`, listed by the data API alongside the wallet's other records
+async function winningMarket(chain: LocalChain, label: string, wallet: string, amount: bigint): Promise<Market> {
+  const market = await createMarket(chain, label, wallet, amount);
+  await resolveMarket(chain, market, [1, 0]);
+  return market;
+}
+
+async function usdcBalance(chain: LocalChain, address: string): Promise<bigint> {
+  return chain.usdc.balanceOf(address);
+}
+
+describe('claiming', () => {
+  let chain: LocalChain;
+  let api: FakeDataApi;
+
+  before(async () => {
+    chain = await startChain({ accounts: 6 });
+    api = await startDataApi();
+  });
+
+  after(async () => {
+    await api?.close();
+    await chain?.stop();
+  });
+
+  describe('proxy wallet', () => {
+    it('redeems a winning position through the factory and records it in the ledger', async () => {
+      const owner = chain.wallets[1];
+      const proxy = await createProxyWallet(chain, owner);
+      const market = await winningMarket(chain, 'proxy: winner', proxy, 2_500_000n);
+      api.setPositions(proxy, [apiPosition(market, proxy, 2.5, { title: 'proxy winner' })]);
+      const ledgerPath = tempLedger();
+
+      const summary = await createClaimer(chain, { signer: owner, proxyAddress: proxy, apiUrl: api.url, ledgerPath }).run();
+
+      assert.equal(summary.error, undefined);
+      assert.equal(summary.succeeded, 1);
+      assert.equal(summary.failed, 0);
+      assert.equal(summary.transactions, 1);
+      assert.equal(summary.payout, 2.5);
+      assert.equal(await usdcBalance(chain, proxy), 2_500_000n);
+      const entry = new ClaimLedger(ledgerPath).latest(proxy, market.conditionId, 0);
+      assert.equal(entry?.status, 'confirmed');
+      assert.equal(entry?.txHash, summary.claims[0].txHash);
+    });
+
+    it('fails cleanly when the EOA has no MATIC for gas', async () => {
+      const owner = chain.wallets[2];
+      const proxy = await createProxyWallet(chain, owner);
+      const market = await winningMarket(chain, 'proxy: no gas', proxy, 1_000_000n);
+      api.setPositions(proxy, [apiPosition(market, proxy, 1)]);
+      await chain.provider.send('evm_setAccountBalance', [owner.address, '0x0']);
+
+      const summary = await createClaimer(chain, { signer: owner, proxyAddress: proxy, apiUrl: api.url }).run();
+
+      assert.equal(summary.succeeded, 0);
+      assert.equal(summary.failed, 1);
+      assert.match(summary.claims[0].error || '', /No MATIC for gas fees/);
+      assert.equal(await usdcBalance(chain, proxy), 0n);
+    });
+
+    it('splits a batch above the gas ceiling into separate transactions', async () => {
+      const owner = chain.wallets[3];
+      const proxy = await createProxyWallet(chain, owner);
+      const first = await winningMarket(chain, 'proxy: ceiling 1', proxy, 1_000_000n);
+      const second = await winningMarket(chain, 'proxy: ceiling 2', proxy, 1_000_000n);
+      api.setPositions(proxy, [apiPosition(first, proxy, 1), apiPosition(second, proxy, 1)]);
+
+      const summary = await createClaimer(chain, { signer: owner, proxyAddress: proxy, apiUrl: api.url, maxBatchGas: 1n }).run();
+
+      assert.equal(summary.succeeded, 2);
+      assert.equal(summary.transactions, 2);
+      assert.equal(await usdcBalance(chain, proxy), 2_000_000n);
+    });
+
+    it('bisects around a position whose condition reverts and claims the rest', async () => {
+      const owner = chain.wallets[4];
+      const proxy = await createProxyWallet(chain, owner);
+      const resolved = await winningMarket(chain, 'proxy: bisect resolved', proxy, 1_000_000n);
+      const unresolved = await createMarket(chain, 'proxy: bisect unresolved', proxy, 1_000_000n);
+      api.setPositions(proxy, [apiPosition(resolved, proxy, 1, { title: 'resolved' })]);
+      const claimer = createClaimer(chain, { signer: owner, proxyAddress: proxy, apiUrl: api.url });
+      await claimer.verify();
+      const [good] = await claimer.fetchRedeemablePositions();
+      // The data API can list a market as redeemable before the oracle's report is on chain
+      const bad = apiPosition(unresolved, proxy, 1, { title: 'unresolved' });
+
+      const results = await claimer.claimWithBisection([good, bad]);
+
+      const byTitle = Object.fromEntries(results.map(r => [r.position.title, r.result]));
+      assert.equal(byTitle['resolved'].success, true);
+      assert.equal(byTitle['unresolved'].success, false);
+      assert.match(byTitle['unresolved'].error || '', /Simulation failed: .*result for condition not received yet/);
+      assert.equal(await usdcBalance(chain, proxy), 1_000_000n);
+    });
+
+    it('splits a batch that runs out of gas and claims each half on its own', async () => {
+      const owner = chain.wallets[5];
+      const proxy = await createProxyWallet(chain, owner);
+      const first = await winningMarket(chain, 'proxy: out of gas 1', proxy, 1_000_000n);
+      const second = await winningMarket(chain, 'proxy: out of gas 2', proxy, 3_000_000n);
+      api.setPositions(proxy, [apiPosition(first, proxy, 1), apiPosition(second, proxy, 3)]);
+      // One redemption estimates at about 110k gas, two at about 155k
+      const provider = gasCappedProvider(chain, 130_000n);
+
+      try {
+        const summary = await createClaimer(chain, { signer: owner, proxyAddress: proxy, apiUrl: api.url, provider }).run();
+
+        assert.equal(summary.error, undefined);
+        assert.equal(summary.succeeded, 2);
+        assert.equal(summary.transactions, 2);
+        assert.equal(await usdcBalance(chain, proxy), ethers.parseUnits('4', 6));
+      } finally {
+        provider.destroy();
+      }
+    });
+  });
+
+  describe('Safe', () => {
+    it('redeems several markets in one MultiSend transaction', async () => {
+      const owner = chain.wallets[1];
+      const safe = await createSafe(chain, [owner.address], 1);
+      const first = await winningMarket(chain, 'safe: winner 1', safe, 1_000_000n);
+      const second = await winningMarket(chain, 'safe: winner 2', safe, 4_000_000n);
+      api.setPositions(safe, [apiPosition(first, safe, 1), apiPosition(second, safe, 4)]);
+
+      const summary = await createClaimer(chain, { signer: owner, proxyAddress: safe, apiUrl: api.url }).run();
+
+      assert.equal(summary.error, undefined);
+      assert.equal(summary.succeeded, 2);
+      assert.equal(summary.transactions, 1);
+      assert.equal(summary.payout, 5);
+      assert.equal(await usdcBalance(chain, safe), 5_000_000n);
+    });
+
+    it('reports the Safe revert code when the inner redemption reverts', async () => {
+      const owner = chain.wallets[1];
+      const safe = await createSafe(chain, [owner.address], 1);
+      const market = await winningMarket(chain, 'safe: frozen', safe, 1_000_000n);
+      api.setPositions(safe, [apiPosition(market, safe, 1)]);
+      // The payout transfer to a frozen holder reverts inside execTransaction
+      await (await chain.usdc.setFrozen(safe, true)).wait();
+
+      const summary = await createClaimer(chain, { signer: owner, proxyAddress: safe, apiUrl: api.url }).run();
+
+      assert.equal(summary.succeeded, 0);
+      assert.equal(summary.failed, 1);
+      assert.equal(summary.transactions, 0);
+      assert.match(summary.claims[0].error || '', /GS013/);
+      assert.equal(await usdcBalance(chain, safe), 0n);
+    });
+  });
+
+  describe('run lock', () => {
+    it('stops sending once the run lock is lost mid-run', async () => {
+      const owner = chain.wallets[1];
+      const safe = await createSafe(chain, [owner.address], 1);
+      const first = await winningMarket(chain, 'lock: first', safe, 1_000_000n);
+      const second = await winningMarket(chain, 'lock: second', safe, 2_000_000n);
+      api.setPositions(safe, [apiPosition(first, safe, 1), apiPosition(second, safe, 2)]);
+      const ledgerPath = tempLedger();
+      const lock = new FileRunLock(path.join(path.dirname(ledgerPath), 'locks'), { staleMs: 60_000, heartbeatMs: 50 });
+      const claimer = createClaimer(chain, { signer: owner, proxyAddress: safe, apiUrl: api.url, ledgerPath, lock, batchSize: 1 });
+      const submitted: ClaimSubmittedEvent[] = [];
+      claimer.on('claimSubmitted', event => {
+        submitted.push(event);
+        // Another run took the account over while the first batch was in flight
+        fs.rmSync(lock.lockPath(claimer.lockKey));
+      });
+
+      const summary = await claimer.run();
+
+      assert.match(summary.error || '', /run lock .* lost: lock file was removed or taken over/);
+      assert.equal(submitted.length, 1);
+      assert.equal(summary.succeeded, 1);
+      assert.equal(await usdcBalance(chain, safe), 1_000_000n);
+    });
+  });
+
+  describe('library use', () => {
+    it('claims planned positions in-process and emits claim events', async () => {
+      const owner = chain.wallets[1];
+      const safe = await createSafe(chain, [owner.address], 1);
+      const market = await winningMarket(chain, 'library: winner', safe, 2_000_000n);
+      api.setPositions(safe, [apiPosition(market, safe, 2, { title: 'library winner' })]);
+      const claimer = createClaimer(chain, { signer: owner, proxyAddress: safe, apiUrl: api.url });
+      const found: Position[] = [];
+      const submitted: ClaimSubmittedEvent[] = [];
+      const confirmed: ClaimConfirmedEvent[] = [];
+      claimer.on('positionFound', position => found.push(position));
+      claimer.on('claimSubmitted', event => submitted.push(event));
+      claimer.on('claimConfirmed', event => confirmed.push(event));
+      claimer.on('claimFailed', event => assert.fail(`unexpected claimFailed: ${event.error}`));
+
+      const plan = await claimer.plan();
+      assert.deepEqual(plan.positions.map(p => p.title), ['library winner']);
+      assert.equal(plan.batches.length, 1);
+      assert.equal(plan.expectedPayout, 2);
+
+      const summary = await claimer.claim(plan.positions);
+
+      assert.equal(summary.error, undefined);
+      assert.equal(summary.succeeded, 1);
+      assert.deepEqual(found.map(p => p.title), ['library winner']);
+      assert.equal(submitted.length, 1);
+      assert.equal(submitted[0].txHash, summary.claims[0].txHash);
+      assert.equal(confirmed.length, 1);
+      assert.equal(confirmed[0].txHash, summary.claims[0].txHash);
+      assert.equal(confirmed[0].payout, 2);
+      assert.equal(confirmed[0].conditionPayout, 2);
+      assert.equal(await usdcBalance(chain, safe), 2_000_000n);
+    });
+  });
+});
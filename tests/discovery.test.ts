@@ -0,0 +1,176 @@
+import assert from 'node:assert/strict';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { after, before, describe, it } from 'node:test';
+import { ethers } from 'ethers';
+import { ChainPositionSource, rootCollectionId } from '../src/services/chain-discovery';
+import { negRiskAdapterInterface } from '../src/services/neg-risk';
+import { LocalChain, createMarket, createProxyWallet, createSafe, resolveMarket, startChain } from './helpers/chain';
+import { FakeDataApi, apiPosition, startDataApi } from './helpers/data-api';
+import { Claimer, createClaimer } from './helpers/claimer';
+
+describe('startup checks and position discovery', () => {
+  let chain: LocalChain;
+  let api: FakeDataApi;
+  let safeAddress: string;
+  let proxyWallet: string;
+
+  before(async () => {
+    chain = await startChain();
+    api = await startDataApi();
+    safeAddress = await createSafe(chain, [chain.wallets[1].address], 1);
+    proxyWallet = await createProxyWallet(chain, chain.wallets[2]);
+  });
+
+  after(async () => {
+    await api?.close();
+    await chain?.stop();
+  });
+
+  describe('initialize()', () => {
+    it('detects a Gnosis Safe with its owners and threshold', async () => {
+      const claimer = createClaimer(chain, { signer: chain.wallets[1], proxyAddress: safeAddress, apiUrl: api.url });
+      const report = await claimer.verify();
+      assert.equal(report.mode, 'safe');
+      assert.equal(report.threshold, 1);
+      assert.deepEqual(report.owners, [chain.wallets[1].address]);
+      assert.equal(report.chainId, 137);
+    });
+
+    it('falls back to proxy mode for a Polymarket proxy wallet', async () => {
+      const claimer = createClaimer(chain, { signer: chain.wallets[2], proxyAddress: proxyWallet, apiUrl: api.url });
+      const report = await claimer.verify();
+      assert.equal(report.mode, 'proxy');
+      assert.equal(report.signer, chain.wallets[2].address);
+    });
+
+    it('rejects a chain that does not match the network profile', async () => {
+      const claimer = createClaimer(chain, { signer: chain.wallets[2], proxyAddress: proxyWallet, apiUrl: api.url, network: { chainId: 80002 } });
+      await assert.rejects(claimer.verify(), /Wrong network. Expected chain 80002, got 137/);
+    });
+
+    it('rejects a proxy address without contract code', async () => {
+      const claimer = createClaimer(chain, { signer: chain.wallets[2], proxyAddress: chain.wallets[3].address, apiUrl: api.url });
+      await assert.rejects(claimer.verify(), /No Safe contract found/);
+    });
+  });
+
+  describe('fetchRedeemablePositions()', () => {
+    it('keeps verified winners and reports why every other position is filtered', async () => {
+      const winner = await createMarket(chain, 'discovery: winner', proxyWallet, 3_000_000n);
+      const lost = await createMarket(chain, 'discovery: lost', proxyWallet, 2_000_000n);
+      const apiSaysLost = await createMarket(chain, 'discovery: api says lost', proxyWallet, 4_000_000n);
+      const open = await createMarket(chain, 'discovery: open', proxyWallet, 1_000_000n);
+      const unresolvedOnChain = await createMarket(chain, 'discovery: api ahead of chain', proxyWallet, 1_000_000n);
+      const notHeld = await createMarket(chain, 'discovery: not held', chain.wallets[3].address, 1_000_000n);
+      await resolveMarket(chain, winner, [1, 0]);
+      await resolveMarket(chain, lost, [0, 1]);
+      await resolveMarket(chain, apiSaysLost, [1, 0]);
+      await resolveMarket(chain, notHeld, [1, 0]);
+
+      api.setPositions(proxyWallet, [
+        apiPosition(winner, proxyWallet, 3, { title: 'winner' }),
+        apiPosition(lost, proxyWallet, 2, { title: 'lost', curPrice: 0, redeemable: true }),
+        apiPosition(apiSaysLost, proxyWallet, 4, { title: 'api says lost', curPrice: 0, redeemable: true }),
+        apiPosition(open, proxyWallet, 1, { title: 'open', curPrice: 0.4, redeemable: false, endDate: '2999-01-01' }),
+        apiPosition(open, proxyWallet, 0, { title: 'empty', outcomeIndex: 1 }),
+        apiPosition(unresolvedOnChain, proxyWallet, 1, { title: 'api ahead of chain' }),
+        apiPosition(notHeld, proxyWallet, 1, { title: 'not held' }),
+        { ...apiPosition(winner, proxyWallet, 1), conditionId: 'not-a-condition-id', title: 'malformed' },
+      ]);
+
+      const claimer = createClaimer(chain, { signer: chain.wallets[2], proxyAddress: proxyWallet, apiUrl: api.url });
+      const filtered: NonNullable<Parameters<Claimer['fetchRedeemablePositions']>[1]> = [];
+      const positions = await claimer.fetchRedeemablePositions(undefined, filtered);
+
+      assert.deepEqual(positions.map(p => p.title), ['winner', 'api says lost']);
+      assert.equal(positions[0].onChain?.expectedPayout, 3_000_000n);
+      const byTitle = Object.fromEntries(filtered.map(f => [f.title, `${f.stage}: ${f.reason}`]));
+      assert.match(byTitle['lost'], /^onchain: on-chain check: losing outcome \(payout numerator is 0\)/);
+      assert.match(byTitle['open'], /^api: market not resolved/);
+      assert.match(byTitle['empty'], /^api: no shares/);
+      assert.match(byTitle['api ahead of chain'], /^onchain: /);
+      assert.match(byTitle['not held'], /^onchain: /);
+      assert.match(byTitle['malformed'], /^schema: malformed data API record: bad conditionId/);
+      assert.equal(api.requests.at(-1)?.searchParams.get('user'), proxyWallet.toLowerCase());
+    });
+
+    it('reports discovery as degraded when the data API fails', async () => {
+      api.failNext(1, 503);
+      const claimer = createClaimer(chain, { signer: chain.wallets[2], proxyAddress: proxyWallet, apiUrl: api.url });
+      const summary = await claimer.run(true);
+      assert.equal(summary.error, undefined);
+      assert.equal(summary.positionsFound, 0);
+      assert.match(summary.degraded || '', /HTTP 503/);
+    });
+
+    it('returns a degraded discover() result when the data API fails', async () => {
+      api.failNext(1, 503);
+      const claimer = createClaimer(chain, { signer: chain.wallets[2], proxyAddress: proxyWallet, apiUrl: api.url, source: 'api' });
+      const result = await claimer.discover();
+      assert.deepEqual(result.positions, []);
+      assert.match(result.degraded || '', /HTTP 503/);
+    });
+  });
+
+  describe('chain discovery', () => {
+    it('derives collection IDs like CTF getCollectionId', async () => {
+      for (const label of ['collection a', 'collection b', 'collection c']) {
+        const conditionId = ethers.id(label);
+        for (const indexSet of [1n, 2n, 3n, 5n]) {
+          assert.equal(rootCollectionId(conditionId, indexSet), await chain.ctf.getCollectionId(ethers.ZeroHash, conditionId, indexSet));
+        }
+      }
+    });
+
+    it('matches a token received after its condition resolved, in a later chunk', async () => {
+      const holder = ethers.Wallet.createRandom().address;
+      const cursorPath = path.join(fs.mkdtempSync(path.join(os.tmpdir(), 'claimer-chain-')), 'cursor.json');
+      const source = new ChainPositionSource(chain.provider, {
+        ctfAddress: chain.network.ctfAddress,
+        collateralAddress: chain.network.usdcAddress,
+        startBlock: await chain.provider.getBlockNumber() + 1,
+        chunkSize: 1,
+        cursorPath,
+      });
+      const market = await createMarket(chain, 'chain discovery: late transfer', chain.wallets[3].address, 2_000_000n);
+      await resolveMarket(chain, market, [1, 0]);
+      const ctf = chain.ctf.connect(chain.wallets[3]) as ethers.Contract;
+      await (await ctf.safeTransferFrom(chain.wallets[3].address, holder, market.positionIds[0], 2_000_000n, '0x')).wait();
+
+      const positions = await source.discover(holder);
+      assert.equal(positions.length, 1);
+      assert.equal(positions[0].conditionId, market.conditionId);
+      assert.equal(positions[0].asset, market.positionIds[0].toString());
+      assert.equal(positions[0].oppositeAsset, market.positionIds[1].toString());
+      assert.equal(positions[0].size, 2);
+      assert.equal(positions[0].curPrice, 1);
+      // Only matched resolutions are kept
+      assert.deepEqual(Object.keys(JSON.parse(fs.readFileSync(cursorPath, 'utf8')).tokens), [market.positionIds[0].toString()]);
+    });
+  });
+
+  describe('buildRedemptionCalldata()', () => {
+    const conditionId = ethers.id('calldata condition');
+
+    it('encodes CTF redeemPositions with the network collateral and index sets', () => {
+      const claimer = createClaimer(chain, { signer: chain.wallets[2], proxyAddress: proxyWallet, apiUrl: api.url });
+      const data = claimer.buildRedemptionCalldata(conditionId, false, [1n, 2n]);
+      const ctf = new ethers.Interface(['function redeemPositions(address collateralToken, bytes32 parentCollectionId, bytes32 conditionId, uint256[] indexSets)']);
+      const decoded = ctf.decodeFunctionData('redeemPositions', data);
+      assert.equal(decoded.collateralToken, chain.network.usdcAddress);
+      assert.equal(decoded.parentCollectionId, ethers.ZeroHash);
+      assert.equal(decoded.conditionId, conditionId);
+      assert.deepEqual([...decoded.indexSets], [1n, 2n]);
+    });
+
+    it('encodes NegRiskAdapter redeemPositions with exact [YES, NO] amounts', () => {
+      const claimer = createClaimer(chain, { signer: chain.wallets[2], proxyAddress: proxyWallet, apiUrl: api.url });
+      const data = claimer.buildRedemptionCalldata(conditionId, true, [1_500_000n, 0n]);
+      const decoded = negRiskAdapterInterface.decodeFunctionData('redeemPositions', data);
+      assert.equal(decoded[0], conditionId);
+      assert.deepEqual([...decoded[1]], [1_500_000n, 0n]);
+    });
+  });
+});
@@ -0,0 +1,61 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.20;
+
+// Stand-in for Polymarket's ProxyWalletFactory with the same `proxy(calls)`
+// interface: every EOA gets one ProxyWallet (created on its first call), and
+// the factory executes the calls from that wallet. Reverts of an inner call
+// are bubbled up unchanged.
+
+struct ProxyCall {
+    uint8 typeCode; // 1 = CALL (the only type the claimer uses)
+    address to;
+    uint256 value;
+    bytes data;
+}
+
+contract ProxyWallet {
+    address public immutable factory;
+
+    constructor() {
+        factory = msg.sender;
+    }
+
+    receive() external payable {}
+
+    function proxy(ProxyCall[] calldata calls) external payable returns (bytes[] memory returnValues) {
+        require(msg.sender == factory, "ProxyWallet: only factory");
+        returnValues = new bytes[](calls.length);
+        for (uint256 i = 0; i < calls.length; i++) {
+            require(calls[i].typeCode == 1, "ProxyWallet: unsupported call type");
+            (bool success, bytes memory result) = calls[i].to.call{value: calls[i].value}(calls[i].data);
+            if (!success) {
+                assembly {
+                    revert(add(result, 32), mload(result))
+                }
+            }
+            returnValues[i] = result;
+        }
+    }
+
+    // ERC1155 receiver hooks, so the wallet can hold CTF position tokens
+    function onERC1155Received(address, address, uint256, uint256, bytes calldata) external pure returns (bytes4) {
+        return this.onERC1155Received.selector;
+    }
+
+    function onERC1155BatchReceived(address, address, uint256[] calldata, uint256[] calldata, bytes calldata) external pure returns (bytes4) {
+        return this.onERC1155BatchReceived.selector;
+    }
+}
+
+contract ProxyWalletFactory {
+    mapping(address => address) public walletOf;
+
+    function proxy(ProxyCall[] calldata calls) external payable returns (bytes[] memory) {
+        address wallet = walletOf[msg.sender];
+        if (wallet == address(0)) {
+            wallet = address(new ProxyWallet());
+            walletOf[msg.sender] = wallet;
+        }
+        return ProxyWallet(payable(wallet)).proxy{value: msg.value}(calls);
+    }
+}
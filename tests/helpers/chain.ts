@@ -0,0 +1,187 @@
+import net from 'net';
+import { ethers } from 'ethers';
+import { NETWORK_PROFILES, NetworkProfile } from '../../src/config/networks';
+import { Artifact, conditionalTokensArtifact, fixtureArtifact, safeArtifact } from './contracts';
+
+// ---------- Local Chain Fixture ---------------------------------------------
+// A ganache node posing as Polygon (chain 137) with Polymarket's contracts:
+// the real ConditionalTokens, a mock USDC.e and a ProxyWalletFactory stand-in.
+// Safe 1.3.0 contracts are placed at their canonical addresses, which is where
+// protocol-kit looks for them on chain 137, so `Safe.init` works unchanged.
+
+const CHAIN_ID = 137;
+
+// Canonical Safe 1.3.0 deployments (@safe-global/safe-deployments, network 137)
+const SAFE_CONTRACTS: Record<string, string> = {
+  'GnosisSafeL2.sol/GnosisSafeL2': '0x3E5c63644E683549055b9Be8653de26E0B4CD36E',
+  'libraries/MultiSendCallOnly.sol/MultiSendCallOnly': '0x40A2aCCbd92BCA938b02010E17A5b8929b49130D',
+  'libraries/MultiSend.sol/MultiSend': '0xA238CBeb142c10Ef7Ad8442C6D1f9E89e07e7761',
+  'handler/CompatibilityFallbackHandler.sol/CompatibilityFallbackHandler': '0xf48f2B2d2a534e402487b3ee7C18c33Aec0Fe5e4',
+};
+const SAFE_SINGLETON = SAFE_CONTRACTS['GnosisSafeL2.sol/GnosisSafeL2'];
+const FALLBACK_HANDLER = SAFE_CONTRACTS['handler/CompatibilityFallbackHandler.sol/CompatibilityFallbackHandler'];
+
+export interface ChainOptions {
+  accounts?: number; // funded accounts (default 4)
+}
+
+export interface LocalChain {
+  url: string;
+  provider: ethers.JsonRpcProvider;
+  wallets: ethers.Wallet[]; // funded with 100 MATIC each; wallets[0] deploys and is the oracle
+  network: NetworkProfile;  // Polygon profile pointing at the local contracts
+  ctf: ethers.Contract;
+  usdc: ethers.Contract;
+  factory: ethers.Contract;
+  stop(): Promise<void>;
+}
+
+export interface Market {
+  questionId: string;
+  conditionId: string;
+  positionIds: [bigint, bigint]; // token IDs of outcome 0 (YES) and 1 (NO)
+}
+
+async function freePort(): Promise<number> {
+  return new Promise((resolve, reject) => {
+    const server = net.createServer();
+    server.unref();
+    server.on('error', reject);
+    server.listen(0, '127.0.0.1', () => {
+      const { port } = server.address() as net.AddressInfo;
+      server.close(() => resolve(port));
+    });
+  });
+}
+
+async function deploy(artifact: Artifact, signer: ethers.Signer, ...args: unknown[]): Promise<ethers.Contract> {
+  const contract = await new ethers.ContractFactory(artifact.abi, artifact.bytecode, signer).deploy(...args);
+  await contract.waitForDeployment();
+  return contract as ethers.Contract;
+}
+
+export async function startChain(options: ChainOptions = {}): Promise<LocalChain> {
+  const ganache = require('ganache');
+  const keys = Array.from({ length: options.accounts ?? 4 }, (_, i) => ethers.id(`claimer-test-account-${i}`));
+  const server = ganache.server({
+    chain: { chainId: CHAIN_ID },
+    wallet: { accounts: keys.map(secretKey => ({ secretKey, balance: ethers.toBeHex(ethers.parseEther('100')) })) },
+    logging: { quiet: true },
+  });
+  const port = await freePort();
+  await server.listen(port, '127.0.0.1');
+  const url = `http://127.0.0.1:${port}`;
+
+  try {
+    return await deployFixtures(url, keys, () => server.close());
+  } catch (error) {
+    await server.close();
+    throw error;
+  }
+}
+
+// A plain Network: ethers' built-in chain-137 profile would ask Polygon's gas station for fees.
+// No request cache: back-to-back transactions would otherwise read a stale pending nonce.
+function localProvider(url: string): ethers.JsonRpcProvider {
+  return new ethers.JsonRpcProvider(url, new ethers.Network('local-polygon', CHAIN_ID), {
+    staticNetwork: true,
+    pollingInterval: 50,
+    cacheTimeout: -1,
+  });
+}
+
+async function deployFixtures(url: string, keys: string[], closeServer: () => Promise<void>): Promise<LocalChain> {
+  const provider = localProvider(url);
+  const wallets = keys.map(key => new ethers.Wallet(key, provider));
+  const deployer = wallets[0];
+
+  for (const [name, address] of Object.entries(SAFE_CONTRACTS)) {
+    await provider.send('evm_setAccountCode', [address, safeArtifact(name).deployedBytecode]);
+  }
+  const ctf = await deploy(conditionalTokensArtifact(), deployer);
+  const usdc = await deploy(fixtureArtifact('MockUSDC'), deployer);
+  const factory = await deploy(fixtureArtifact('ProxyWalletFactory'), deployer);
+
+  const network: NetworkProfile = {
+    ...NETWORK_PROFILES.polygon,
+    label: 'Local test chain',
+    ctfAddress: await ctf.getAddress(),
+    usdcAddress: await usdc.getAddress(),
+    proxyWalletFactoryAddress: await factory.getAddress(),
+    polymarketApi: undefined,
+    explorerUrl: undefined,
+    safeTxServiceUrl: undefined,
+    relayerUrl: undefined,
+  };
+
+  return {
+    url,
+    provider,
+    wallets,
+    network,
+    ctf: ctf.connect(wallets[0]) as ethers.Contract,
+    usdc: usdc.connect(wallets[0]) as ethers.Contract,
+    factory: factory.connect(wallets[0]) as ethers.Contract,
+    async stop() {
+      provider.destroy();
+      await closeServer();
+    },
+  };
+}
+
+// Provider for the same node that runs eth_call / eth_estimateGas with at most `gasCap` gas,
+// like RPC endpoints that cap call gas. The caller destroys it.
+export function gasCappedProvider(chain: LocalChain, gasCap: bigint): ethers.JsonRpcProvider {
+  const provider = localProvider(chain.url);
+  const send = provider.send.bind(provider);
+  provider.send = (method, params) => {
+    if ((method === 'eth_call' || method === 'eth_estimateGas') && Array.isArray(params)) {
+      params = [{ ...params[0], gas: ethers.toQuantity(gasCap) }, ...params.slice(1)];
+    }
+    return send(method, params);
+  };
+  return provider;
+}
+
+// Proxy wallet of `owner` in the factory stand-in, created by an empty proxy() call
+export async function createProxyWallet(chain: LocalChain, owner: ethers.Wallet): Promise<string> {
+  const factory = chain.factory.connect(owner) as ethers.Contract;
+  await (await factory.proxy([])).wait();
+  return factory.walletOf(owner.address);
+}
+
+// Safe 1.3.0 proxy with the given owners and threshold
+export async function createSafe(chain: LocalChain, owners: string[], threshold: number): Promise<string> {
+  const deployer = chain.wallets[0];
+  const proxy = await deploy(safeArtifact('proxies/GnosisSafeProxy.sol/GnosisSafeProxy'), deployer, SAFE_SINGLETON);
+  const safe = new ethers.Contract(await proxy.getAddress(), safeArtifact('GnosisSafeL2.sol/GnosisSafeL2').abi, deployer);
+  await (await safe.setup(owners, threshold, ethers.ZeroAddress, '0x', FALLBACK_HANDLER, ethers.ZeroAddress, 0, ethers.ZeroAddress)).wait();
+  return safe.getAddress();
+}
+
+// Binary condition with `amount` (6 decimals) of outcome `outcomeIndex` held by `holder`.
+// The other outcome stays with the deployer. Resolve it with resolveMarket.
+export async function createMarket(chain: LocalChain, label: string, holder: string, amount: bigint, outcomeIndex = 0): Promise<Market> {
+  const oracle = chain.wallets[0];
+  const questionId = ethers.id(label);
+  await (await chain.ctf.prepareCondition(oracle.address, questionId, 2)).wait();
+  const conditionId: string = await chain.ctf.getConditionId(oracle.address, questionId, 2);
+
+  const usdcAddress = await chain.usdc.getAddress();
+  await (await chain.usdc.mint(oracle.address, amount)).wait();
+  await (await chain.usdc.approve(await chain.ctf.getAddress(), amount)).wait();
+  await (await chain.ctf.splitPosition(usdcAddress, ethers.ZeroHash, conditionId, [1, 2], amount)).wait();
+
+  const positionIds = [0, 1].map(async index => {
+    const collectionId = await chain.ctf.getCollectionId(ethers.ZeroHash, conditionId, 1 << index);
+    return chain.ctf.getPositionId(usdcAddress, collectionId) as Promise<bigint>;
+  });
+  const [yes, no] = await Promise.all(positionIds);
+  await (await chain.ctf.safeTransferFrom(oracle.address, holder, outcomeIndex === 0 ? yes : no, amount, '0x')).wait();
+  return { questionId, conditionId, positionIds: [yes, no] };
+}
+
+// Report the payout vector of a market, e.g. [1, 0] for YES
+export async function resolveMarket(chain: LocalChain, market: Market, payouts: number[] = [1, 0]) {
+  await (await chain.ctf.reportPayouts(market.questionId, payouts)).wait();
+}
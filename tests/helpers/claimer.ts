@@ -0,0 +1,38 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { ethers } from 'ethers';
+import { ClaimerOptions, NetworkProfile, SimplePolymarketClaimer, log } from '../../src';
+import { LocalChain } from './chain';
+
+// Quiet logs unless asked for
+log.configure({ level: (process.env.TEST_LOG_LEVEL as 'debug' | 'info' | 'warn' | 'error') || 'error' });
+
+export { SimplePolymarketClaimer };
+export type Claimer = SimplePolymarketClaimer;
+
+let claimerCount = 0;
+
+// Claimer for `proxyAddress`, signing with `signer`, against the local chain and data API.
+// Other claimer options pass through; `network` overrides keys of the local chain's profile.
+export function createClaimer(chain: LocalChain, options: Omit<Partial<ClaimerOptions>, 'network'> & {
+  signer: ethers.Signer;
+  proxyAddress: string;
+  apiUrl: string;
+  network?: Partial<NetworkProfile>;
+}): Claimer {
+  const { apiUrl, network, ...rest } = options;
+  return new SimplePolymarketClaimer({
+    name: `test-${++claimerCount}`,
+    provider: chain.provider,
+    ledgerPath: tempLedger(),
+    ...rest,
+    network: { ...chain.network, polymarketApi: apiUrl, ...network },
+    dataApi: { maxRetries: 0, ...rest.dataApi },
+  });
+}
+
+// Fresh ledger file in a temporary directory
+export function tempLedger(): string {
+  return path.join(fs.mkdtempSync(path.join(os.tmpdir(), 'claimer-test-')), 'ledger.jsonl');
+}
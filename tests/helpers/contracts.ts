@@ -0,0 +1,68 @@
+import fs from 'fs';
+import path from 'path';
+import { ethers } from 'ethers';
+
+// Contract artifacts for the local chain: the real Gnosis ConditionalTokens and
+// Safe 1.3.0 builds from their npm packages, plus the Solidity fixtures in
+// tests/fixtures/contracts compiled with solc-js on first use.
+
+export interface Artifact {
+  abi: ethers.InterfaceAbi;
+  bytecode: string;
+  deployedBytecode?: string;
+}
+
+const FIXTURES_DIR = path.resolve(__dirname, '..', 'fixtures', 'contracts');
+
+function readJson(file: string): any {
+  return JSON.parse(fs.readFileSync(require.resolve(file), 'utf8'));
+}
+
+export function conditionalTokensArtifact(): Artifact {
+  const { abi, bytecode } = readJson('@gnosis.pm/conditional-tokens-contracts/build/contracts/ConditionalTokens.json');
+  return { abi, bytecode };
+}
+
+// Safe 1.3.0 contracts by artifact path below build/artifacts/contracts, e.g. 'GnosisSafeL2.sol/GnosisSafeL2'
+export function safeArtifact(name: string): Artifact {
+  const { abi, bytecode, deployedBytecode } = readJson(`@gnosis.pm/safe-contracts/build/artifacts/contracts/${name}.json`);
+  return { abi, bytecode, deployedBytecode };
+}
+
+let fixtures: Record<string, Artifact> | undefined;
+
+// Compiled fixture contracts by contract name (MockUSDC, ProxyWalletFactory, ...)
+export function fixtureArtifact(name: string): Artifact {
+  if (!fixtures) fixtures = compileFixtures();
+  const artifact = fixtures[name];
+  if (!artifact) throw new Error(`No fixture contract ${name} in ${FIXTURES_DIR}`);
+  return artifact;
+}
+
+function compileFixtures(): Record<string, Artifact> {
+  // solc-js is slow to load; only pay for it when a test deploys a fixture
+  const solc = require('solc');
+  const sources: Record<string, { content: string }> = {};
+  for (const file of fs.readdirSync(FIXTURES_DIR).filter(f => f.endsWith('.sol'))) {
+    sources[file] = { content: fs.readFileSync(path.join(FIXTURES_DIR, file), 'utf8') };
+  }
+  const output = JSON.parse(solc.compile(JSON.stringify({
+    language: 'Solidity',
+    sources,
+    settings: {
+      optimizer: { enabled: true, runs: 200 },
+      evmVersion: 'paris',
+      outputSelection: { '*': { '*': ['abi', 'evm.bytecode.object'] } },
+    },
+  })));
+  const errors = (output.errors || []).filter((e: any) => e.severity === 'error');
+  if (errors.length > 0) throw new Error(`Fixture compilation failed:\n${errors.map((e: any) => e.formattedMessage).join('\n')}`);
+
+  const artifacts: Record<string, Artifact> = {};
+  for (const contracts of Object.values<any>(output.contracts)) {
+    for (const [name, contract] of Object.entries<any>(contracts)) {
+      artifacts[name] = { abi: contract.abi, bytecode: `0x${contract.evm.bytecode.object}` };
+    }
+  }
+  return artifacts;
+}
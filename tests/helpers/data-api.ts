@@ -0,0 +1,92 @@
+import http from 'http';
+import { AddressInfo } from 'net';
+import { Position } from '../../src/types/position';
+import { Market } from './chain';
+
+// ---------- Data API Stand-in -----------------------------------------------
+// Serves `/positions?user=&limit=&offset=` like Polymarket's data API, from
+// records the test sets per wallet. `failNext` answers the next requests with
+// an HTTP error instead.
+
+export interface FakeDataApi {
+  url: string;
+  requests: URL[];
+  setPositions(user: string, records: unknown[]): void;
+  failNext(count: number, status?: number): void;
+  close(): Promise<void>;
+}
+
+export async function startDataApi(): Promise<FakeDataApi> {
+  const positions = new Map<string, unknown[]>();
+  const requests: URL[] = [];
+  let failures = 0;
+  let failureStatus = 500;
+
+  const server = http.createServer((req, res) => {
+    const url = new URL(req.url || '/', 'http://localhost');
+    requests.push(url);
+    res.setHeader('Content-Type', 'application/json');
+    if (failures > 0) {
+      failures--;
+      res.statusCode = failureStatus;
+      res.end(JSON.stringify({ error: 'stand-in failure' }));
+    } else if (url.pathname !== '/positions') {
+      res.statusCode = 404;
+      res.end(JSON.stringify({ error: 'not found' }));
+    } else {
+      const all = positions.get((url.searchParams.get('user') || '').toLowerCase()) || [];
+      const offset = Number(url.searchParams.get('offset') || 0);
+      const limit = Number(url.searchParams.get('limit') || 100);
+      res.end(JSON.stringify(all.slice(offset, offset + limit)));
+    }
+  });
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+
+  return {
+    url: `http://127.0.0.1:${(server.address() as AddressInfo).port}`,
+    requests,
+    setPositions(user, records) {
+      positions.set(user.toLowerCase(), records);
+    },
+    failNext(count, status = 500) {
+      failures = count;
+      failureStatus = status;
+    },
+    close() {
+      return new Promise(resolve => server.close(() => resolve()));
+    },
+  };
+}
+
+// Data API record of `size` shares of one outcome of `market`, held by `wallet`
+export function apiPosition(market: Market, wallet: string, size: number, overrides: Partial<Position> = {}): Position {
+  const outcomeIndex = overrides.outcomeIndex ?? 0;
+  return {
+    proxyWallet: wallet.toLowerCase(),
+    asset: market.positionIds[outcomeIndex].toString(),
+    conditionId: market.conditionId,
+    size,
+    avgPrice: 0.5,
+    initialValue: size * 0.5,
+    currentValue: size,
+    cashPnl: size * 0.5,
+    percentPnl: 100,
+    totalBought: size,
+    realizedPnl: 0,
+    percentRealizedPnl: 0,
+    curPrice: 1,
+    redeemable: true,
+    mergeable: false,
+    title: `Market ${market.questionId.slice(0, 10)}`,
+    slug: 'test-market',
+    icon: '',
+    eventSlug: 'test-event',
+    outcome: outcomeIndex === 0 ? 'Yes' : 'No',
+    outcomeIndex,
+    oppositeOutcome: outcomeIndex === 0 ? 'No' : 'Yes',
+    oppositeAsset: market.positionIds[1 - outcomeIndex].toString(),
+    endDate: '2020-01-01',
+    negativeRisk: false,
+    ...overrides,
+  };
+}
@@ -0,0 +1,82 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import type { AxiosInstance } from 'axios';
+import { ethers } from 'ethers';
+import { RelayRequest, RelayerClient, relayStructHash } from '../src/services/relayer';
+
+const RELAY_HUB = ethers.Wallet.createRandom().address;
+const RELAY = ethers.Wallet.createRandom().address;
+
+const request: RelayRequest = {
+  proxyWallet: ethers.Wallet.createRandom().address,
+  factory: ethers.Wallet.createRandom().address,
+  data: '0x1234',
+  gasLimit: 500_000n,
+};
+
+// Axios stand-in: `polls` answers GET /transaction in turn (an Error is thrown), the last one repeats
+function fakeHttp(polls: Array<object | Error>) {
+  const submitted: any[] = [];
+  let poll = 0;
+  const http = {
+    async get(url: string, config: { params: Record<string, string> }) {
+      if (url.endsWith('/relay-payload')) return { data: { address: RELAY, nonce: '7' } };
+      assert.ok(url.endsWith('/transaction'));
+      assert.equal(config.params.id, 'relay-1');
+      const answer = polls[Math.min(poll++, polls.length - 1)];
+      if (answer instanceof Error) throw answer;
+      return { data: [answer] };
+    },
+    async post(url: string, body: any) {
+      assert.ok(url.endsWith('/submit'));
+      submitted.push(body);
+      return { data: { transactionID: 'relay-1', state: 'STATE_NEW' } };
+    },
+  };
+  return { http: http as unknown as AxiosInstance, submitted, polls: () => poll };
+}
+
+function fakeProvider(receipts: Record<string, object>): ethers.Provider {
+  return { getTransactionReceipt: async (hash: string) => receipts[hash] ?? null } as unknown as ethers.Provider;
+}
+
+describe('RelayerClient', () => {
+  it('submits a signed request and follows replacements until mined, through poll errors', async () => {
+    const signer = ethers.Wallet.createRandom();
+    const [first, replacement] = [ethers.id('first'), ethers.id('replacement')];
+    const { http, submitted, polls } = fakeHttp([
+      new Error('socket hang up'),
+      { transactionID: 'relay-1', state: 'STATE_EXECUTED', transactionHash: first },
+      new Error('HTTP 502'),
+      { transactionID: 'relay-1', state: 'STATE_MINED', transactionHash: replacement },
+    ]);
+    const client = new RelayerClient(fakeProvider({ [replacement]: { status: 1 } }), {
+      url: 'http://relayer.test/', relayHub: RELAY_HUB, pollIntervalMs: 1, timeoutMs: 5000,
+    }, http);
+
+    const hashes: string[] = [];
+    const outcome = await client.relay(signer, request, hash => hashes.push(hash));
+
+    assert.deepEqual(outcome, { id: 'relay-1', hash: replacement, state: 'STATE_MINED', receipt: { status: 1 }, pending: false });
+    assert.deepEqual(hashes, [first, replacement]);
+    assert.equal(polls(), 4);
+
+    const [body] = submitted;
+    assert.equal(body.from, signer.address);
+    assert.equal(body.nonce, '7');
+    assert.equal(body.signatureParams.relay, RELAY);
+    const structHash = relayStructHash(signer.address, request, 7n, RELAY_HUB, RELAY);
+    assert.equal(ethers.verifyMessage(ethers.getBytes(structHash), body.signature), signer.address);
+  });
+
+  it('reports an accepted request pending when polling keeps failing until the deadline', async () => {
+    const { http, polls } = fakeHttp([new Error('HTTP 503')]);
+    const client = new RelayerClient(fakeProvider({}), {
+      url: 'http://relayer.test', relayHub: RELAY_HUB, pollIntervalMs: 10, timeoutMs: 100,
+    }, http);
+
+    const outcome = await client.relay(ethers.Wallet.createRandom(), request);
+    assert.deepEqual(outcome, { id: 'relay-1', hash: undefined, state: 'STATE_NEW', pending: true });
+    assert.ok(polls() > 1);
+  });
+});
@@ -0,0 +1,82 @@
+import assert from 'node:assert/strict';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { describe, it } from 'node:test';
+import { ethers } from 'ethers';
+import { FileRunLock, RunLockBusyError, newHolder } from '../src/services/run-lock';
+import { SimplePolymarketClaimer, tempLedger } from './helpers/claimer';
+
+function lockDir(): string {
+  return fs.mkdtempSync(path.join(os.tmpdir(), 'claimer-lock-'));
+}
+
+describe('FileRunLock', () => {
+  it('lets one holder in per key and frees the key on release', async () => {
+    const lock = new FileRunLock(lockDir());
+    const lease = await lock.acquire('claimer-137-0xabc');
+    await assert.rejects(lock.acquire('claimer-137-0xabc'), (error: any) => {
+      assert.ok(error instanceof RunLockBusyError);
+      assert.match(error.message, new RegExp(`held by pid ${process.pid}`));
+      return true;
+    });
+    const other = await lock.acquire('claimer-137-0xdef');
+    await other.release();
+
+    await lease.release();
+    assert.equal(fs.existsSync(lock.lockPath('claimer-137-0xabc')), false);
+    await (await lock.acquire('claimer-137-0xabc')).release();
+  });
+
+  it('takes over a lock whose process is gone', async () => {
+    const lock = new FileRunLock(lockDir());
+    // A PID above the kernel's limit never belongs to a live process
+    fs.writeFileSync(lock.lockPath('key'), JSON.stringify({ ...newHolder(), pid: 2 ** 30 }));
+    const lease = await lock.acquire('key');
+    assert.equal(JSON.parse(fs.readFileSync(lock.lockPath('key'), 'utf8')).pid, process.pid);
+    await lease.release();
+  });
+
+  it('takes over a lock whose heartbeat is older than the stale timeout', async () => {
+    const lock = new FileRunLock(lockDir(), { staleMs: 1000, heartbeatMs: 100 });
+    const old = new Date(Date.now() - 5000).toISOString();
+    fs.writeFileSync(lock.lockPath('key'), JSON.stringify({ ...newHolder(), hostname: 'another-machine', heartbeatAt: old }));
+    const lease = await lock.acquire('key');
+    await lease.release();
+  });
+
+  it('keeps a live holder on another machine through its heartbeat', async () => {
+    const lock = new FileRunLock(lockDir(), { staleMs: 300, heartbeatMs: 50 });
+    const lease = await lock.acquire('key');
+    await new Promise(resolve => setTimeout(resolve, 500));
+    // Beyond staleMs since acquiring, but heartbeats kept it fresh
+    const holder = JSON.parse(fs.readFileSync(lock.lockPath('key'), 'utf8'));
+    fs.writeFileSync(lock.lockPath('key'), JSON.stringify({ ...holder, hostname: 'another-machine' }));
+    await assert.rejects(lock.acquire('key'), RunLockBusyError);
+    assert.equal(lease.lost, undefined);
+    await lease.release();
+  });
+});
+
+describe('claimer run lock', () => {
+  it('skips the run while another run holds the account', async () => {
+    const ledgerPath = tempLedger();
+    const proxyAddress = ethers.Wallet.createRandom().address;
+    const claimer = new SimplePolymarketClaimer({
+      proxyAddress,
+      signer: ethers.Wallet.createRandom(),
+      rpcUrl: 'http://127.0.0.1:1', // never reached: the run stops at the lock
+      ledgerPath,
+    });
+    const lock = new FileRunLock(path.join(path.dirname(ledgerPath), 'locks'));
+    const lease = await lock.acquire(claimer.lockKey);
+    try {
+      const summary = await claimer.run();
+      assert.match(summary.skipped!, /held by pid/);
+      assert.equal(summary.error, undefined);
+      assert.equal(summary.transactions, 0);
+    } finally {
+      await lease.release();
+    }
+  });
+});
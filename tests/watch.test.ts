@@ -0,0 +1,124 @@
+import assert from 'node:assert/strict';
+import fs from 'fs';
+import path from 'path';
+import { after, before, describe, it } from 'node:test';
+import { Resolution, ResolutionWatcher, WatchOptions } from '../src/services/resolution-watcher';
+import { LocalChain, createMarket, createSafe, resolveMarket, startChain } from './helpers/chain';
+import { FakeDataApi, apiPosition, startDataApi } from './helpers/data-api';
+import { createClaimer, tempLedger } from './helpers/claimer';
+
+// Watcher over the local chain; `resolutions` collects what it reports
+function watch(chain: LocalChain, options: Partial<WatchOptions> = {}) {
+  const resolutions: Resolution[] = [];
+  const watcher = new ResolutionWatcher(chain.provider, {
+    chainId: 137,
+    ctfAddress: chain.network.ctfAddress,
+    pollIntervalMs: 100,
+    heartbeatMs: 60_000,
+    chunkSize: 5,
+    cursorPath: path.join(path.dirname(tempLedger()), 'watch-cursor.json'),
+    ...options,
+  }, resolution => resolutions.push(resolution));
+  return { watcher, resolutions };
+}
+
+async function waitFor<T>(what: string, check: () => T | undefined, timeoutMs = 5000): Promise<T> {
+  const deadline = Date.now() + timeoutMs;
+  for (;;) {
+    const value = check();
+    if (value !== undefined) return value;
+    if (Date.now() > deadline) throw new Error(`Timed out waiting for ${what}`);
+    await new Promise(resolve => setTimeout(resolve, 50));
+  }
+}
+
+describe('watching resolutions', () => {
+  let chain: LocalChain;
+  let api: FakeDataApi;
+
+  before(async () => {
+    chain = await startChain();
+    api = await startDataApi();
+  });
+
+  after(async () => {
+    await api?.close();
+    await chain?.stop();
+  });
+
+  describe('ResolutionWatcher', () => {
+    it('reports ConditionResolution logs from the polled block cursor', async () => {
+      const market = await createMarket(chain, 'watch: polled', chain.wallets[1].address, 1_000_000n);
+      const { watcher, resolutions } = watch(chain);
+      await watcher.start();
+      try {
+        await resolveMarket(chain, market);
+        const resolution = await waitFor('the resolution', () => resolutions.find(r => r.conditionId === market.conditionId.toLowerCase()));
+        assert.equal(resolution.source, 'ctf');
+        assert.equal(resolutions.length, 1);
+      } finally {
+        await watcher.stop();
+      }
+    });
+
+    it('resumes from its cursor file after a restart', async () => {
+      const market = await createMarket(chain, 'watch: while stopped', chain.wallets[1].address, 1_000_000n);
+      const cursorPath = path.join(path.dirname(tempLedger()), 'watch-cursor.json');
+      const first = watch(chain, { cursorPath });
+      await first.watcher.start();
+      await first.watcher.stop();
+      const cursor = JSON.parse(fs.readFileSync(cursorPath, 'utf8')).lastScannedBlock;
+
+      await resolveMarket(chain, market);
+      const second = watch(chain, { cursorPath });
+      await second.watcher.start();
+      try {
+        await waitFor('the missed resolution', () => second.resolutions.find(r => r.conditionId === market.conditionId.toLowerCase()));
+        assert.ok(second.resolutions[0].blockNumber > cursor);
+      } finally {
+        await second.watcher.stop();
+      }
+    });
+
+    it('receives resolutions over a WebSocket subscription', async () => {
+      const market = await createMarket(chain, 'watch: websocket', chain.wallets[1].address, 1_000_000n);
+      // A poll interval far beyond the wait: only the subscription can deliver in time
+      const { watcher, resolutions } = watch(chain, { wsUrl: chain.url.replace('http://', 'ws://'), heartbeatMs: 60_000 });
+      await watcher.start();
+      try {
+        await new Promise(resolve => setTimeout(resolve, 300)); // initial catch-up poll
+        await resolveMarket(chain, market);
+        const resolution = await waitFor('the resolution', () => resolutions.find(r => r.conditionId === market.conditionId.toLowerCase()));
+        assert.equal(resolution.source, 'ctf');
+      } finally {
+        await watcher.stop();
+      }
+    });
+  });
+
+  describe('claimConditions()', () => {
+    it('claims a just-resolved condition the data API still lists as open, and nothing else', async () => {
+      const owner = chain.wallets[1];
+      const safe = await createSafe(chain, [owner.address], 1);
+      const resolving = await createMarket(chain, 'watch: resolving', safe, 2_000_000n);
+      const other = await createMarket(chain, 'watch: other winner', safe, 1_000_000n);
+      await resolveMarket(chain, other);
+      // Minutes after resolution the data API has not marked the market redeemable yet
+      api.setPositions(safe, [
+        apiPosition(resolving, safe, 2, { title: 'resolving', curPrice: 0.5, redeemable: false, endDate: '2999-01-01' }),
+        apiPosition(other, safe, 1, { title: 'other' }),
+      ]);
+      const claimer = createClaimer(chain, { signer: owner, proxyAddress: safe, apiUrl: api.url });
+      await claimer.discover();
+      assert.equal(claimer.holds(resolving.conditionId), true);
+
+      await resolveMarket(chain, resolving);
+      const summary = await claimer.claimConditions([resolving.conditionId]);
+
+      assert.equal(summary.error, undefined);
+      assert.equal(summary.succeeded, 1);
+      assert.deepEqual(summary.claims.map(c => c.title), ['resolving']);
+      assert.equal(await chain.usdc.balanceOf(safe), 2_000_000n);
+    });
+  });
+});